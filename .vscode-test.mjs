@@ -1,5 +1,5 @@
 import { defineConfig } from '@vscode/test-cli';
 
 export default defineConfig({
-	files: 'test/**/*.test.js',
+	files: 'out/test/**/*.test.js',
 });
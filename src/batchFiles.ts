@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './utils';
+import { MappingManager, MemoryMemento } from './mappings';
+import { getDictionaryMetadata } from './dictionary';
+import { TokenClass, isLexerSupported, languageIdForPath } from './lexer';
+import { Dictionary, TranslationMode, currentDictionary, detectScript, setCurrentDictionary, translateToOriginal, translateToTarget } from './engine';
+import { analyzeTranslatedText, coveragePercent } from './translationAnalysis';
+import { dictionaryVersion, hashText } from './sidecarFile';
+import { BatchManifest, MANIFEST_FILE, MANIFEST_FORMAT_VERSION, ManifestEntry, readManifest, writeManifest } from './batchManifest';
+
+// Batch translation of files on disk into a mirrored folder and back, without VS Code
+
+// Appended to an inexact restore written beside the English original instead of over it
+export const RESTORED_SUFFIX = '.restored';
+
+// What a run takes from the settings and dictionary layers of whoever starts it
+export interface BatchEnvironment {
+    dictionaryFor(language: string, languageId: string): Dictionary;
+    tokenizerLanguageFor(languageId: string): string;
+    modeClasses(mode: TranslationMode): TokenClass[];
+}
+
+export interface BatchRun {
+    language: string;
+    mode: TranslationMode;
+    // The folder the files are translated from; their paths below it are mirrored in the output folder
+    root: string;
+    outputFolder: string;
+}
+
+export interface BatchResult {
+    outputFolder: string;
+    manifestPath: string;
+    files: ManifestEntry[];
+    skipped: { file: string; reason: string }[];
+    failed: { file: string; error: string }[];
+}
+
+export interface RestoreResult {
+    restored: string[];
+    // Unedited copies whose restored text differs from the source they were made from; restored into the source
+    // folder, these are written beside the original with RESTORED_SUFFIX
+    inexact: string[];
+    failed: { file: string; error: string }[];
+}
+
+function isInsideFolder(folder: string, filePath: string): boolean {
+    const relative = path.relative(path.resolve(folder), filePath);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function toManifestPath(relative: string): string {
+    return relative.split(path.sep).join('/');
+}
+
+/**
+ * Translates the given files of the run's root into a mirrored tree under its output folder and writes a manifest
+ * with each file's mapping next to it. Each file gets its own scratch map. `report` receives one line per file.
+ */
+export async function translateBatch(filePaths: string[], run: BatchRun, environment: BatchEnvironment, report: (line: string) => void, isCancelled: () => boolean = () => false): Promise<BatchResult> {
+    const outputFolder = path.resolve(run.outputFolder);
+    const classes = environment.modeClasses(run.mode);
+    // Earlier output is never translated again
+    const files = filePaths
+        .map(filePath => path.resolve(filePath))
+        .filter(filePath => !filePath.startsWith(outputFolder + path.sep))
+        .sort((a, b) => a.localeCompare(b));
+    log(`Batch translation of ${files.length} file(s) to ${run.language} into ${outputFolder}`);
+
+    const result: BatchResult = { outputFolder, manifestPath: path.join(outputFolder, MANIFEST_FILE), files: [], skipped: [], failed: [] };
+    const previousDictionary = currentDictionary;
+    try {
+        for (const filePath of files) {
+            if (isCancelled()) break;
+            const file = toManifestPath(path.relative(run.root, filePath));
+            const languageId = languageIdForPath(filePath);
+            const tokenizerLanguage = environment.tokenizerLanguageFor(languageId);
+            // Without a lexer every word would count as comment text, so the whole file would be translated
+            if (run.mode === 'comments' && !isLexerSupported(tokenizerLanguage)) {
+                const reason = `no comments to translate in '${languageId}' files`;
+                result.skipped.push({ file, reason });
+                report(`${file}: skipped (${reason})`);
+                continue;
+            }
+            try {
+                const text = fs.readFileSync(filePath, 'utf8');
+                const dictionary = environment.dictionaryFor(run.language, languageId);
+                // The segmenters read the active dictionary
+                setCurrentDictionary(dictionary);
+                const scratchMap = new MappingManager(new MemoryMemento());
+                const translated = await translateToTarget(text, dictionary, scratchMap, run.language, () => {}, tokenizerLanguage, classes);
+
+                const analysis = analyzeTranslatedText(translated, dictionary, getDictionaryMetadata(run.language)?.script ?? detectScript(translated), tokenizerLanguage, classes);
+                const untranslated = [...new Set(analysis.findings.filter(finding => finding.kind === 'untranslated').map(finding => finding.word))];
+                const outputPath = path.join(outputFolder, file);
+                fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+                fs.writeFileSync(outputPath, translated, 'utf8');
+
+                const entry: ManifestEntry = {
+                    file,
+                    languageId,
+                    tokenizerLanguage,
+                    sourceHash: hashText(text),
+                    translatedHash: hashText(translated),
+                    coverage: coveragePercent(analysis),
+                    untranslated,
+                    ...scratchMap.exportSnapshot(),
+                };
+                result.files.push(entry);
+                report(`${file}: ${entry.coverage}%${untranslated.length > 0 ? ` (untranslated: ${untranslated.slice(0, 10).join(', ')}${untranslated.length > 10 ? ', …' : ''})` : ''}`);
+            } catch (error) {
+                log(`Error translating ${file}: ${error}`);
+                result.failed.push({ file, error: String(error) });
+                report(`${file}: failed (${error})`);
+            }
+        }
+    } finally {
+        setCurrentDictionary(previousDictionary);
+    }
+
+    const manifest: BatchManifest = {
+        formatVersion: MANIFEST_FORMAT_VERSION,
+        language: run.language,
+        mode: run.mode,
+        classes,
+        dictionaryVersion: dictionaryVersion(environment.dictionaryFor(run.language, 'plaintext'), run.language),
+        sourceRoot: toManifestPath(path.relative(outputFolder, run.root)) || '.',
+        files: result.files,
+        ...(result.skipped.length > 0 ? { skipped: result.skipped } : {}),
+    };
+    writeManifest(result.manifestPath, manifest);
+    log(`Wrote batch manifest ${result.manifestPath}`);
+    return result;
+}
+
+// Restores the English text of every translated copy listed in the manifest into the target folder
+export async function restoreBatch(manifestPath: string, targetFolder: string, environment: BatchEnvironment, report: (line: string) => void): Promise<RestoreResult> {
+    const manifest = readManifest(manifestPath);
+    const outputFolder = path.dirname(manifestPath);
+    const result: RestoreResult = { restored: [], inexact: [], failed: [] };
+    const intoSource = path.resolve(targetFolder) === path.resolve(outputFolder, manifest.sourceRoot);
+    const previousDictionary = currentDictionary;
+    try {
+        for (const entry of manifest.files) {
+            try {
+                // Manifests are picked by the user, so their paths may not point anywhere else
+                const copyPath = path.resolve(outputFolder, entry.file);
+                const targetPath = path.resolve(targetFolder, entry.file);
+                if (!isInsideFolder(outputFolder, copyPath) || !isInsideFolder(targetFolder, targetPath)) {
+                    throw new Error('path leaves the output or target folder');
+                }
+                const text = fs.readFileSync(copyPath, 'utf8');
+                const dictionary = environment.dictionaryFor(manifest.language, entry.languageId);
+                setCurrentDictionary(dictionary);
+                const scratchMap = new MappingManager(new MemoryMemento());
+                scratchMap.importSnapshot(entry);
+                const script = getDictionaryMetadata(manifest.language)?.script ?? detectScript(text);
+                const restored = await translateToOriginal(text, scratchMap, dictionary, () => {}, script,
+                    entry.tokenizerLanguage ?? environment.tokenizerLanguageFor(entry.languageId), manifest.classes ?? environment.modeClasses(manifest.mode));
+
+                // Only an untouched copy is expected to come back byte-for-byte
+                const exact = hashText(text) !== entry.translatedHash || hashText(restored) === entry.sourceHash;
+                // An inexact restore never replaces the English original it was made from
+                const writePath = !exact && intoSource ? `${targetPath}${RESTORED_SUFFIX}` : targetPath;
+                fs.mkdirSync(path.dirname(writePath), { recursive: true });
+                fs.writeFileSync(writePath, restored, 'utf8');
+                result.restored.push(entry.file);
+                if (!exact) {
+                    result.inexact.push(entry.file);
+                }
+                report(`${entry.file}: restored${exact ? '' : ` (differs from the original source${writePath !== targetPath ? `, written as ${path.basename(writePath)}` : ''})`}`);
+            } catch (error) {
+                log(`Error restoring ${entry.file}: ${error}`);
+                result.failed.push({ file: entry.file, error: String(error) });
+                report(`${entry.file}: failed (${error})`);
+            }
+        }
+    } finally {
+        setCurrentDictionary(previousDictionary);
+    }
+    return result;
+}
@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MappingSnapshot } from './mappings';
+import { TranslationMode } from './engine';
+import { TokenClass } from './lexer';
+
+// The manifest a batch translation writes next to its output, read back to restore the English files
+
+export const MANIFEST_FILE = 'nlt-manifest.json';
+export const MANIFEST_FORMAT_VERSION = 1;
+
+// One translated copy, with what is needed to restore it and how well it was translated
+export interface ManifestEntry extends MappingSnapshot {
+    // Path relative to both the source root and the output folder, with '/' separators
+    file: string;
+    languageId: string;
+    // 'plaintext' when syntax-aware tokenization was switched off
+    tokenizerLanguage?: string;
+    sourceHash: string;
+    translatedHash: string;
+    coverage: number;
+    untranslated: string[];
+}
+
+export interface BatchManifest {
+    formatVersion: number;
+    language: string;
+    mode: TranslationMode;
+    // Token classes every file was translated with
+    classes?: TokenClass[];
+    dictionaryVersion: string;
+    // The translated folder, relative to the output folder the manifest sits in
+    sourceRoot: string;
+    files: ManifestEntry[];
+    // Files the run left alone, e.g. ones without comments in a comment-only run
+    skipped?: { file: string; reason: string }[];
+}
+
+export function writeManifest(manifestPath: string, manifest: BatchManifest): void {
+    fs.mkdirSync(path.dirname(path.resolve(manifestPath)), { recursive: true });
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2), 'utf8');
+}
+
+export function readManifest(manifestPath: string): BatchManifest {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as BatchManifest;
+    if (manifest.formatVersion !== MANIFEST_FORMAT_VERSION || !Array.isArray(manifest.files)) {
+        throw new Error('unsupported manifest format');
+    }
+    return manifest;
+}
@@ -0,0 +1,259 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { log } from './utils';
+import { TranslatorState } from './extension';
+import { Dictionary, TranslationMode, loadDictionary, getModeClasses, tokenizerLanguageFor } from './translation';
+import { BatchManifest, readManifest } from './batchManifest';
+import { BatchEnvironment, BatchResult, BatchRun, RESTORED_SUFFIX, RestoreResult, restoreBatch, translateBatch } from './batchFiles';
+
+export { BatchManifest, MANIFEST_FILE, MANIFEST_FORMAT_VERSION, ManifestEntry, readManifest, writeManifest } from './batchManifest';
+export { BatchResult, RestoreResult } from './batchFiles';
+
+export const BATCH_TASK_TYPE = 'nlt';
+
+export interface BatchOptions {
+    language: string;
+    include: string;
+    exclude: string;
+    // Relative to the workspace folder; `${language}` is replaced by the language code
+    output: string;
+    mode: TranslationMode;
+    folder: vscode.WorkspaceFolder;
+}
+
+export interface BatchTaskDefinition extends vscode.TaskDefinition {
+    language?: string;
+    include?: string;
+    exclude?: string;
+    output?: string;
+    mode?: TranslationMode;
+}
+
+function getBatchSetting(key: string, fallback: string): string {
+    return vscode.workspace.getConfiguration('vscode-translator').get<string>(key, fallback);
+}
+
+export function defaultBatchOptions(language: string, folder: vscode.WorkspaceFolder): BatchOptions {
+    return {
+        language,
+        include: getBatchSetting('batchInclude', '**/*.{py,js,jsx,ts,tsx,java,c,h,cpp,cs,md,txt}'),
+        exclude: getBatchSetting('batchExclude', '**/{node_modules,.git,.vscode,.nlt,out,dist}/**'),
+        output: getBatchSetting('batchOutputFolder', 'translated/${language}'),
+        mode: 'full',
+        folder,
+    };
+}
+
+// Settings and dictionary layers of the workspace; dictionaries differ per language mode (scopes), so each is loaded once per run
+function batchEnvironment(context: vscode.ExtensionContext, resource: vscode.Uri): BatchEnvironment {
+    const dictionaries = new Map<string, Dictionary>();
+    return {
+        dictionaryFor: (language, languageId) => {
+            const key = `${language}:${languageId}`;
+            let dictionary = dictionaries.get(key);
+            if (!dictionary) {
+                dictionary = loadDictionary(context, language, languageId, resource);
+                dictionaries.set(key, dictionary);
+            }
+            return dictionary;
+        },
+        tokenizerLanguageFor,
+        modeClasses: getModeClasses,
+    };
+}
+
+/**
+ * Translates every matching file of the workspace folder into a mirrored tree under the output folder and writes
+ * a manifest with each file's mapping next to it. Open editors and their mappings are never touched.
+ */
+export async function translateFiles(context: vscode.ExtensionContext, options: BatchOptions, report: (line: string) => void, token?: vscode.CancellationToken): Promise<BatchResult> {
+    const root = options.folder.uri.fsPath;
+    const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(options.folder, options.include), options.exclude);
+    const run: BatchRun = {
+        language: options.language,
+        mode: options.mode,
+        root,
+        outputFolder: path.resolve(root, options.output.replace(/\$\{language\}/g, options.language)),
+    };
+    return translateBatch(uris.map(uri => uri.fsPath), run, batchEnvironment(context, options.folder.uri), report, () => token?.isCancellationRequested ?? false);
+}
+
+// Restores the English text of every translated copy listed in the manifest into the target folder
+export function restoreFiles(context: vscode.ExtensionContext, manifestPath: string, targetFolder: string, report: (line: string) => void): Promise<RestoreResult> {
+    return restoreBatch(manifestPath, targetFolder, batchEnvironment(context, vscode.Uri.file(targetFolder)), report);
+}
+
+function batchReport(options: BatchOptions, result: BatchResult): string {
+    const coverage = result.files.length > 0 ? Math.floor(result.files.reduce((sum, entry) => sum + entry.coverage, 0) / result.files.length) : 100;
+    const lines = [
+        `# Translation of ${options.include} to ${options.language}`,
+        '',
+        `${result.files.length} file(s) written to \`${result.outputFolder}\`, average coverage ${coverage}%. Manifest: \`${result.manifestPath}\``,
+        '',
+        '| File | Coverage | Untranslated words |',
+        '| --- | --- | --- |',
+        ...result.files.map(entry => `| ${entry.file} | ${entry.coverage}% | ${entry.untranslated.join(', ')} |`),
+        '',
+    ];
+    if (result.skipped.length > 0) {
+        lines.push(`## Skipped (${result.skipped.length})`, '', ...result.skipped.map(skip => `- ${skip.file}: ${skip.reason}`), '');
+    }
+    if (result.failed.length > 0) {
+        lines.push(`## Failed (${result.failed.length})`, '', ...result.failed.map(failure => `- ${failure.file}: ${failure.error}`), '');
+    }
+    return lines.join('\n');
+}
+
+function pickWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+    const resource = vscode.window.activeTextEditor?.document.uri;
+    return (resource && vscode.workspace.getWorkspaceFolder(resource)) ?? vscode.workspace.workspaceFolders?.[0];
+}
+
+async function runTranslateFolderCommand(context: vscode.ExtensionContext, state: TranslatorState) {
+    const language = state.selectedLanguage();
+    if (!language || language === 'en') {
+        vscode.window.showErrorMessage('Please select a target language first.');
+        return;
+    }
+    const folder = pickWorkspaceFolder();
+    if (!folder) {
+        vscode.window.showErrorMessage('Open a workspace folder to translate its files.');
+        return;
+    }
+    const options = defaultBatchOptions(language, folder);
+    const include = await vscode.window.showInputBox({ prompt: `Files of ${folder.name} to translate to ${language}`, value: options.include, ignoreFocusOut: true });
+    if (!include) return;
+    const output = await vscode.window.showInputBox({ prompt: 'Output folder, relative to the workspace folder', value: options.output.replace(/\$\{language\}/g, language), ignoreFocusOut: true });
+    if (!output) return;
+    options.include = include;
+    options.output = output;
+
+    const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Translating files to ${language}`,
+        cancellable: true,
+    }, (progress, token) => translateFiles(context, options, line => progress.report({ message: line }), token));
+
+    const choice = await vscode.window.showInformationMessage(
+        `Translated ${result.files.length} file(s) to ${language} into ${path.relative(folder.uri.fsPath, result.outputFolder) || '.'}${result.skipped.length > 0 ? `, ${result.skipped.length} skipped` : ''}${result.failed.length > 0 ? `, ${result.failed.length} failed` : ''}.`,
+        'Show Report'
+    );
+    if (choice === 'Show Report') {
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: batchReport(options, result) });
+        await vscode.window.showTextDocument(document, { preview: false });
+    }
+}
+
+async function runRestoreCommand(context: vscode.ExtensionContext) {
+    const folder = pickWorkspaceFolder();
+    const picked = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        defaultUri: folder ? vscode.Uri.joinPath(folder.uri, 'translated') : undefined,
+        filters: { 'Translation manifest': ['json'] },
+        openLabel: 'Restore English',
+    });
+    if (!picked || picked.length === 0) return;
+    const manifestPath = picked[0].fsPath;
+    let manifest: BatchManifest;
+    try {
+        manifest = readManifest(manifestPath);
+    } catch (error) {
+        vscode.window.showErrorMessage(`${path.basename(manifestPath)} is not a translation manifest: ${error}`);
+        return;
+    }
+
+    const sourceRoot = path.resolve(path.dirname(manifestPath), manifest.sourceRoot);
+    const destination = await vscode.window.showQuickPick([
+        { label: 'Source folder', description: sourceRoot, overwrite: true },
+        { label: 'Another folder…', description: 'Choose where the English files go', overwrite: false },
+    ], { placeHolder: `Where should the ${manifest.files.length} restored file(s) be written?`, ignoreFocusOut: true });
+    if (!destination) return;
+
+    let targetFolder = sourceRoot;
+    if (destination.overwrite) {
+        const confirm = await vscode.window.showWarningMessage(
+            `Overwrite ${manifest.files.length} file(s) in ${sourceRoot} with the English restored from the translated copies?`,
+            { modal: true },
+            'Overwrite'
+        );
+        if (confirm !== 'Overwrite') return;
+    } else {
+        const target = await vscode.window.showOpenDialog({ canSelectFiles: false, canSelectFolders: true, openLabel: 'Restore Here' });
+        if (!target || target.length === 0) return;
+        targetFolder = target[0].fsPath;
+    }
+
+    const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Restoring English from ${path.basename(manifestPath)}`,
+    }, progress => restoreFiles(context, manifestPath, targetFolder, line => progress.report({ message: line })));
+
+    const problems = [
+        result.inexact.length > 0 ? `${result.inexact.length} differ from the original source (${result.inexact.slice(0, 3).join(', ')})${destination.overwrite ? ` and were written beside it as ${RESTORED_SUFFIX} files` : ''}` : '',
+        result.failed.length > 0 ? `${result.failed.length} failed (${result.failed.slice(0, 3).map(failure => failure.file).join(', ')})` : '',
+    ].filter(Boolean);
+    const message = `Restored ${result.restored.length} file(s) into ${targetFolder}.${problems.length > 0 ? ` ${problems.join('; ')}.` : ''}`;
+    if (problems.length > 0) {
+        vscode.window.showWarningMessage(message);
+    } else {
+        vscode.window.showInformationMessage(message);
+    }
+}
+
+// The same run as the command, as a task whose terminal shows one line per file
+function createBatchTask(context: vscode.ExtensionContext, state: TranslatorState, definition: BatchTaskDefinition, folder: vscode.WorkspaceFolder): vscode.Task {
+    const execution = new vscode.CustomExecution(async () => {
+        const writeEmitter = new vscode.EventEmitter<string>();
+        const closeEmitter = new vscode.EventEmitter<number>();
+        const write = (line: string) => writeEmitter.fire(`${line}\r\n`);
+        return {
+            onDidWrite: writeEmitter.event,
+            onDidClose: closeEmitter.event,
+            open: async () => {
+                const language = definition.language ?? state.selectedLanguage();
+                if (!language || language === 'en') {
+                    write('No target language: set "language" in the task or select one first.');
+                    closeEmitter.fire(1);
+                    return;
+                }
+                const defaults = defaultBatchOptions(language, folder);
+                const options: BatchOptions = {
+                    ...defaults,
+                    include: definition.include ?? defaults.include,
+                    exclude: definition.exclude ?? defaults.exclude,
+                    output: definition.output ?? defaults.output,
+                    mode: definition.mode ?? defaults.mode,
+                };
+                try {
+                    const result = await translateFiles(context, options, write);
+                    write('');
+                    write(`${result.files.length} file(s) translated to ${language} into ${result.outputFolder}, ${result.skipped.length} skipped, ${result.failed.length} failed.`);
+                    write(`Manifest: ${result.manifestPath}`);
+                    closeEmitter.fire(result.failed.length > 0 ? 1 : 0);
+                } catch (error) {
+                    write(`Batch translation failed: ${error}`);
+                    closeEmitter.fire(1);
+                }
+            },
+            close: () => {},
+        };
+    });
+    const name = definition.language ? `translate files to ${definition.language}` : 'translate files';
+    return new vscode.Task(definition, folder, name, BATCH_TASK_TYPE, execution);
+}
+
+export function registerBatchTranslation(context: vscode.ExtensionContext, state: TranslatorState) {
+    const translateDisposable = vscode.commands.registerCommand('vscode-translator.translateFolder', () => runTranslateFolderCommand(context, state));
+    const restoreDisposable = vscode.commands.registerCommand('vscode-translator.restoreFromManifest', () => runRestoreCommand(context));
+
+    const taskDisposable = vscode.tasks.registerTaskProvider(BATCH_TASK_TYPE, {
+        provideTasks: () => (vscode.workspace.workspaceFolders ?? []).map(folder => createBatchTask(context, state, { type: BATCH_TASK_TYPE }, folder)),
+        resolveTask: (task) => {
+            const folder = typeof task.scope === 'object' ? task.scope : pickWorkspaceFolder();
+            return folder ? createBatchTask(context, state, task.definition as BatchTaskDefinition, folder) : undefined;
+        },
+    });
+
+    context.subscriptions.push(translateDisposable, restoreDisposable, taskDisposable);
+    log('Batch translation commands and task registered successfully');
+}
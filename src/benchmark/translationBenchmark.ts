@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { splitTranslatable } from '../lexer';
+import { getDictionaryMetadata, readDictionary } from '../dictionary';
+import { Dictionary, addCapitalizationVariants, detectScript, setCurrentDictionary, translateToOriginal, translateToTarget } from '../engine';
+import { getDictionaryIndex, OccurrenceCounter } from '../indexes';
+import { MappingManager, MemoryMemento } from '../mappings';
+import { setLogSink } from '../utils';
+
+// Compares the linear dictionary scans and prefix rescans the translator used to do per token with the
+// inverted indexes and occurrence counters it uses now, then times a full translation and restore, over the
+// extension's own sources repeated into a large file. Run with `npm run benchmark [language] [lines]`.
+
+const language = process.argv[2] ?? 'es';
+const targetLines = Number(process.argv[3] ?? 5000);
+const srcFolder = path.join(__dirname, '..', '..', 'src');
+
+function buildSample(): string {
+    const sources = fs.readdirSync(srcFolder)
+        .filter(name => name.endsWith('.ts'))
+        .map(name => fs.readFileSync(path.join(srcFolder, name), 'utf8'));
+    const lines: string[] = [];
+    while (lines.length < targetLines) {
+        for (const source of sources) {
+            lines.push(...source.split('\n'));
+        }
+    }
+    return lines.slice(0, targetLines).join('\n');
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The identifiers translateToTarget assigns, looked up and numbered the old way
+function linearIdentifiers(words: string[], dictionary: Dictionary): string[] {
+    const identifiers: string[] = [];
+    const translatedTokens: string[] = [];
+    for (const word of words) {
+        const lowerWord = word.toLowerCase();
+        const dictTerm = Object.keys(dictionary).find(term => dictionary[term].some(t => t.toLowerCase() === lowerWord));
+        const translated = dictTerm ?? word;
+        const idBase = translated.toLowerCase();
+        const occurrences = (translatedTokens.join('').match(new RegExp(escapeRegExp(idBase), 'gi')) || []).length;
+        identifiers.push(`${idBase}_${occurrences + 1}`);
+        translatedTokens.push(translated, ' ');
+    }
+    return identifiers;
+}
+
+function indexedIdentifiers(words: string[], dictionary: Dictionary): string[] {
+    const identifiers: string[] = [];
+    const index = getDictionaryIndex(dictionary);
+    const occurrences = new OccurrenceCounter();
+    for (const word of words) {
+        const translated = index.targetsFor(word)[0] ?? word;
+        const idBase = translated.toLowerCase();
+        identifiers.push(`${idBase}_${occurrences.count(idBase) + 1}`);
+        occurrences.add(translated);
+        occurrences.add(' ');
+    }
+    return identifiers;
+}
+
+function report(label: string, start: bigint): void {
+    const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+    console.log(`${label.padEnd(28)} ${elapsed.toFixed(1).padStart(10)} ms`);
+}
+
+function time<T>(label: string, run: () => T): T {
+    const start = process.hrtime.bigint();
+    const result = run();
+    report(label, start);
+    return result;
+}
+
+async function timeAsync<T>(label: string, run: () => Promise<T>): Promise<T> {
+    const start = process.hrtime.bigint();
+    const result = await run();
+    report(label, start);
+    return result;
+}
+
+// Both directions of the real engine, the way the CLI runs them, with a count of the lines that didn't come back
+async function roundTrip(text: string, dictionary: Dictionary): Promise<void> {
+    setCurrentDictionary(dictionary);
+    addCapitalizationVariants(text, dictionary);
+    const mappingManager = new MappingManager(new MemoryMemento());
+    const translated = await timeAsync('translateToTarget', () =>
+        translateToTarget(text, dictionary, mappingManager, language, () => {}, 'typescript'));
+    const restored = await timeAsync('translateToOriginal', () =>
+        translateToOriginal(translated, mappingManager, dictionary, () => {}, getDictionaryMetadata(language)?.script ?? detectScript(translated), 'typescript'));
+    const lines = text.split('\n');
+    const restoredLines = restored.split('\n');
+    const differing = lines.filter((line, i) => restoredLines[i] !== line).length;
+    console.log(differing === 0 ? 'Restored exactly' : `${differing} of ${lines.length} lines restored differently`);
+}
+
+// The engine traces every token; only the timings are wanted here
+setLogSink(() => {});
+
+const dictionary = readDictionary([path.join(srcFolder, 'languages', `${language}.json`)], language, 'typescript');
+const sample = buildSample();
+const words = splitTranslatable(sample, 'typescript').filter(piece => piece.translatable).map(piece => piece.text);
+console.log(`${targetLines} lines, ${words.length} translatable words, ${Object.keys(dictionary).length} ${language} terms`);
+
+const indexed = time('inverted index + counter', () => indexedIdentifiers(words, dictionary));
+const linear = time('linear scan + prefix regex', () => linearIdentifiers(words, dictionary));
+
+const mismatch = linear.findIndex((identifier, i) => identifier !== indexed[i]);
+if (mismatch !== -1) {
+    console.error(`Identifiers differ at word ${mismatch} ('${words[mismatch]}'): ${linear[mismatch]} vs ${indexed[mismatch]}`);
+    process.exit(1);
+}
+console.log('Identifiers match');
+
+roundTrip(sample, dictionary).catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+});
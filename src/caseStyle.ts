@@ -0,0 +1,77 @@
+// Case patterns of source words and putting them on translations, so casing survives the round trip
+
+export type CaseStyle = 'lower' | 'upper' | 'title' | 'camel' | 'pascal' | 'mixed';
+
+// Capitals only where a word of the identifier starts, or in acronyms: forEach, parseHTTPResponse, ForEach, HTTPServer
+const CAMEL = /^\p{Ll}[\p{Ll}\p{M}\p{N}]*(?:\p{Lu}[\p{Lu}\p{M}\p{N}]*[\p{Ll}\p{M}\p{N}]*)*$/u;
+const PASCAL = /^\p{Lu}[\p{Lu}\p{M}\p{N}]*[\p{Ll}\p{M}\p{N}]*(?:\p{Lu}[\p{Lu}\p{M}\p{N}]*[\p{Ll}\p{M}\p{N}]*)*$/u;
+
+/**
+ * lower (`user`), upper (`FOR`, two or more capitals), title (`User`, `A`), camel (`forEach`), Pascal (`ForEach`,
+ * `HTTPServer`) or mixed for anything else, like text with spaces. Words without cased letters count as lower.
+ */
+export function detectCaseStyle(word: string): CaseStyle {
+    const upper = (word.match(/\p{Lu}/gu) || []).length;
+    const lower = (word.match(/\p{Ll}/gu) || []).length;
+    if (upper === 0) return 'lower';
+    if (lower === 0) return upper > 1 ? 'upper' : 'title';
+    if (upper === 1 && /^\p{Lu}/u.test(word)) return 'title';
+    if (CAMEL.test(word)) return 'camel';
+    if (PASCAL.test(word)) return 'pascal';
+    return 'mixed';
+}
+
+/**
+ * Writes the target in the style; mixed leaves it as it is. Multi-word targets keep their spaces, unless the style
+ * is camel or Pascal, which only identifiers have, or joinWords asks for an identifier part: then the words are
+ * joined at capitals (`forEach` → `paraCada`).
+ */
+export function applyCaseStyle(target: string, style: CaseStyle, language = 'en', joinWords = false): string {
+    const locale = caseLocale(language);
+    const words = target.split(/\s+/).filter(Boolean);
+    if (words.length > 1 && (joinWords || style === 'camel' || style === 'pascal')) {
+        return words.map((word, i) => {
+            if (style === 'upper') return toUpper(word, locale);
+            if (style === 'mixed') return word;
+            return i === 0 && (style === 'lower' || style === 'camel') ? lowerFirst(word, locale) : upperFirst(word, locale);
+        }).join('');
+    }
+
+    switch (style) {
+        case 'lower':
+            return target.toLocaleLowerCase(locale);
+        case 'upper':
+            return toUpper(target, locale);
+        case 'title':
+            // Terms with capitals of their own (JavaScript) keep them
+            return /\p{Ll}/u.test(target) ? upperFirst(target, locale) : upperFirst(target.toLocaleLowerCase(locale), locale);
+        case 'camel':
+            return lowerFirst(target, locale);
+        case 'pascal':
+            return upperFirst(target, locale);
+        default:
+            return target;
+    }
+}
+
+// Turkish and Azerbaijani pair the dotted i with a dotted capital and the dotless one with I; other languages use the default mapping
+function caseLocale(language: string): string {
+    const base = language.toLowerCase().split(/[-_]/)[0];
+    return base === 'tr' || base === 'az' ? base : 'en';
+}
+
+// Sharp s becomes the capital sharp s rather than SS, so the word still lowercases to the dictionary term and maps back
+// to the same identifier
+function toUpper(text: string, locale: string): string {
+    return text.replace(/\u00DF/g, '\u1E9E').toLocaleUpperCase(locale);
+}
+
+function upperFirst(word: string, locale: string): string {
+    const first = String.fromCodePoint(word.codePointAt(0) ?? 0);
+    return word ? toUpper(first, locale) + word.slice(first.length) : word;
+}
+
+function lowerFirst(word: string, locale: string): string {
+    const first = String.fromCodePoint(word.codePointAt(0) ?? 0);
+    return word ? first.toLocaleLowerCase(locale) + word.slice(first.length) : word;
+}
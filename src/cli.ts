@@ -0,0 +1,260 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { log, setLogSink } from './utils';
+import { MappingManager, MemoryMemento } from './mappings';
+import { Dictionary, TranslationMode, addCapitalizationVariants, detectScript, setCurrentDictionary, stripBidiIsolation, translateToOriginal, translateToTarget } from './engine';
+import { WORKSPACE_DICTIONARY_FOLDER, getDictionaryMetadata, readDictionary } from './dictionary';
+import { DEFAULT_TRANSLATED_CLASSES, TokenClass, languageIdForPath } from './lexer';
+import { SIDECAR_FOLDER, SIDECAR_FORMAT_VERSION, SidecarFile, dictionaryVersion, hashText, isSidecarStale, readSidecar, writeSidecarFile } from './sidecarFile';
+
+// `nlt translate` and `nlt restore`: the extension's engine on files, without VS Code.
+// Maps are sidecar files, so the extension can toggle a file the CLI translated back to English, and the other way round.
+
+const USAGE = `Usage:
+  nlt translate <file> --to <language> [--map <file>] [--out <file>] [--mode full|comments]
+  nlt restore <file> [--map <file>] [--out <file>]
+
+Options:
+  --to <language>       Target language code, e.g. es or ja
+  --map <file>          Mapping to write (translate) or read (restore); defaults to the
+                        sidecar .nlt/<file>.map.json of the output, relative to the current folder;
+                        required when translating to stdout
+  --out <file>          Write the result to a file instead of stdout
+  --mode <mode>         full (default) or comments
+  --language-id <id>    Tokenizer language such as typescript; guessed from the file extension
+  --dictionary <file>   Extra dictionary layer over the bundled and .vscode/nlt ones; repeatable
+  --verbose             Trace every token on stderr`;
+
+const VALUE_OPTIONS = ['to', 'map', 'out', 'mode', 'language-id', 'dictionary'];
+
+class UsageError extends Error {}
+
+interface CliArgs {
+    command?: string;
+    files: string[];
+    options: { [name: string]: string };
+    dictionaries: string[];
+    verbose: boolean;
+    help: boolean;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = { files: [], options: {}, dictionaries: [], verbose: false, help: false };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--help' || arg === '-h') {
+            args.help = true;
+        } else if (arg === '--verbose') {
+            args.verbose = true;
+        } else if (arg.startsWith('--')) {
+            // Both --to es and --to=es
+            const [name, inlineValue] = arg.substring(2).split(/=(.*)/s);
+            if (!VALUE_OPTIONS.includes(name)) {
+                throw new UsageError(`Unknown option ${arg}`);
+            }
+            const value = inlineValue ?? argv[++i];
+            if (value === undefined) {
+                throw new UsageError(`Missing value for --${name}`);
+            }
+            if (name === 'dictionary') {
+                args.dictionaries.push(value);
+            } else {
+                args.options[name] = value;
+            }
+        } else if (args.command === undefined) {
+            args.command = arg;
+        } else {
+            args.files.push(arg);
+        }
+    }
+    return args;
+}
+
+// Bundled dictionaries sit in out/languages after a build, or are read from the sources after a plain compile
+function bundledFolder(): string {
+    const built = path.join(__dirname, 'languages', 'languages');
+    return fs.existsSync(built) ? built : path.join(__dirname, '..', 'src', 'languages');
+}
+
+// The same layers as the extension, with the current folder standing in for the workspace
+function loadDictionary(language: string, languageId: string, extraLayers: string[]): Dictionary {
+    for (const layer of extraLayers) {
+        if (!fs.existsSync(layer)) {
+            throw new Error(`Dictionary ${layer} not found`);
+        }
+    }
+    const layers = [
+        path.join(bundledFolder(), `${language}.json`),
+        path.join(process.cwd(), WORKSPACE_DICTIONARY_FOLDER, `${language}.json`),
+        ...extraLayers,
+    ];
+    const dictionary = readDictionary(layers, language, languageId);
+    if (Object.keys(dictionary).length === 0) {
+        throw new Error(`No ${language} dictionary found`);
+    }
+    // The segmenters look words up in the current dictionary
+    setCurrentDictionary(dictionary);
+    return dictionary;
+}
+
+function modeClasses(mode: TranslationMode): TokenClass[] {
+    return mode === 'comments' ? ['comment'] : DEFAULT_TRANSLATED_CLASSES;
+}
+
+// Where the extension looks for the file's map when the current folder is opened as the workspace
+function sidecarPathFor(filePath: string): string {
+    const relative = path.relative(process.cwd(), path.resolve(filePath));
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        return path.join(path.dirname(path.resolve(filePath)), SIDECAR_FOLDER, `${path.basename(filePath)}.map.json`);
+    }
+    return path.join(process.cwd(), SIDECAR_FOLDER, `${relative}.map.json`);
+}
+
+function relativeFile(filePath: string): string {
+    return path.relative(process.cwd(), path.resolve(filePath)).split(path.sep).join('/');
+}
+
+function readInput(filePath: string): string {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`${filePath} not found`);
+    }
+    return fs.readFileSync(filePath, 'utf8');
+}
+
+function writeOutput(text: string, out: string | undefined): void {
+    if (out) {
+        fs.mkdirSync(path.dirname(path.resolve(out)), { recursive: true });
+        fs.writeFileSync(out, text, 'utf8');
+    } else {
+        process.stdout.write(text);
+    }
+}
+
+function singleFile(args: CliArgs): string {
+    if (args.files.length !== 1) {
+        throw new UsageError(`nlt ${args.command} takes exactly one file`);
+    }
+    return args.files[0];
+}
+
+async function translateCommand(args: CliArgs): Promise<void> {
+    const file = singleFile(args);
+    const language = args.options.to;
+    if (!language || language === 'en') {
+        throw new UsageError('--to needs a target language other than en');
+    }
+    const mode = (args.options.mode ?? 'full') as TranslationMode;
+    if (mode !== 'full' && mode !== 'comments') {
+        throw new UsageError(`Unknown mode ${mode}`);
+    }
+    const out = args.options.out;
+    // The sidecar belongs to the translated file; without one there is nowhere the extension or `nlt restore` would look
+    const mapPath = args.options.map ?? (out ? sidecarPathFor(out) : undefined);
+    if (!mapPath) {
+        throw new UsageError('Translating to stdout needs --map, as there is no output file to keep the map next to');
+    }
+    const text = readInput(file);
+    const languageId = args.options['language-id'] ?? languageIdForPath(file);
+    const dictionary = loadDictionary(language, languageId, args.dictionaries);
+    // Taken before the capitalization variants are added, as restoring loads the dictionary without them
+    const version = dictionaryVersion(dictionary, language);
+    addCapitalizationVariants(text, dictionary);
+
+    const mappingManager = new MappingManager(new MemoryMemento());
+    const classes = modeClasses(mode);
+    const translated = await translateToTarget(text, dictionary, mappingManager, language, () => {}, languageId, classes);
+    const sidecar: SidecarFile = {
+        formatVersion: SIDECAR_FORMAT_VERSION,
+        // Never the input: the map describes the translation, which on stdout has no file name
+        file: out ? relativeFile(out) : '-',
+        language,
+        mode,
+        classes,
+        tokenizerLanguage: languageId,
+        dictionaryVersion: version,
+        sourceHash: hashText(text),
+        translatedHash: hashText(translated),
+        ...mappingManager.exportSnapshot(),
+    };
+    writeSidecarFile(mapPath, sidecar);
+    writeOutput(translated, out);
+    console.error(`Translated ${file} to ${language}${out ? ` in ${out}` : ''}; map written to ${mapPath}`);
+}
+
+async function restoreCommand(args: CliArgs): Promise<void> {
+    const file = singleFile(args);
+    const mapPath = args.options.map ?? sidecarPathFor(file);
+    const sidecar = readSidecar(mapPath);
+    if (!sidecar) {
+        throw new Error(`No mapping found at ${mapPath}; pass it with --map`);
+    }
+    const text = readInput(file);
+    const unchanged = !isSidecarStale(sidecar, text);
+    // Offsets of a partial translation are only known for the text as it was written
+    if (sidecar.ranges && !unchanged) {
+        throw new Error(`${file} is a partial translation that was edited since; restore it in the editor, which tracks the translated ranges`);
+    }
+    const languageId = args.options['language-id'] ?? languageIdForPath(file);
+    const dictionary = loadDictionary(sidecar.language, languageId, args.dictionaries);
+    if (dictionaryVersion(dictionary, sidecar.language) !== sidecar.dictionaryVersion) {
+        console.error(`Warning: the ${sidecar.language} dictionary changed since ${file} was translated; check the result.`);
+    }
+
+    const mappingManager = new MappingManager(new MemoryMemento());
+    mappingManager.importSnapshot(sidecar);
+    // Isolation marks are display-only; the mapping was built from the unmarked text
+    const source = stripBidiIsolation(text);
+    const script = getDictionaryMetadata(sidecar.language)?.script ?? detectScript(source);
+    const ranges = sidecar.ranges?.map(range => ({ ...range }));
+    // Tokenized the way it was translated; older maps only record the mode
+    const classes = sidecar.classes ?? modeClasses(sidecar.mode);
+    const restored = await translateToOriginal(source, mappingManager, dictionary, () => {}, script, sidecar.tokenizerLanguage ?? languageId, classes, ranges);
+    writeOutput(restored, args.options.out);
+    if (unchanged && sidecar.sourceHash && hashText(restored) !== sidecar.sourceHash) {
+        console.error(`Warning: ${file} did not restore to the exact English source it was translated from.`);
+    }
+    console.error(`Restored ${file} from ${sidecar.language}${args.options.out ? ` in ${args.options.out}` : ''}`);
+}
+
+export async function main(argv: string[]): Promise<number> {
+    let args: CliArgs;
+    try {
+        args = parseArgs(argv);
+    } catch (error) {
+        console.error(`nlt: ${(error as Error).message}\n\n${USAGE}`);
+        return 2;
+    }
+    if (args.help || args.command === undefined) {
+        console.log(USAGE);
+        return args.help ? 0 : 2;
+    }
+    setLogSink(args.verbose ? message => console.error(message) : () => {});
+
+    try {
+        switch (args.command) {
+            case 'translate':
+                await translateCommand(args);
+                return 0;
+            case 'restore':
+                await restoreCommand(args);
+                return 0;
+            default:
+                throw new UsageError(`Unknown command ${args.command}`);
+        }
+    } catch (error) {
+        log(`CLI error: ${error}`);
+        if (error instanceof UsageError) {
+            console.error(`nlt: ${error.message}\n\n${USAGE}`);
+            return 2;
+        }
+        console.error(`nlt: ${(error as Error).message ?? error}`);
+        return 1;
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,114 @@
+import * as vscode from 'vscode';
+import { log } from './utils';
+import { TranslatorState } from './extension';
+import { findOccurrenceIdentifier } from './mappings';
+import { getDictionaryMetadata } from './dictionary';
+import { getDictionaryIndex } from './indexes';
+import { Dictionary, detectScript, isCasedScript } from './translation';
+import { DIAGNOSTIC_SOURCE, splitWordParts } from './diagnostics';
+import { isInRanges } from './translatedRanges';
+
+// Run by the quick fixes; registered in extension.ts next to Add/Remove from Dictionary
+export const ADD_WORD_COMMAND = 'vscode-translator.addWordToDictionary';
+export const USE_MEANING_COMMAND = 'vscode-translator.useMeaning';
+
+export function getDocumentScript(language: string, text: string): string {
+    return getDictionaryMetadata(language)?.script ?? detectScript(text);
+}
+
+// The dictionary term under the position: the whole word, or the compound part the position falls in
+function termAt(document: vscode.TextDocument, position: vscode.Position, dictionary: Dictionary, isCased: boolean): { offset: number; word: string } | undefined {
+    const range = document.getWordRangeAtPosition(position, /[\p{L}\p{M}\p{N}]+/u);
+    if (!range) return undefined;
+    const word = document.getText(range);
+    const start = document.offsetAt(range.start);
+    const index = getDictionaryIndex(dictionary);
+    if (index.termsMatching(word, isCased).length > 0) {
+        return { offset: start, word };
+    }
+    const cursor = document.offsetAt(position);
+    let partOffset = start;
+    for (const part of splitWordParts(word, isCased)) {
+        partOffset = start + word.indexOf(part, partOffset - start);
+        if (cursor >= partOffset && cursor <= partOffset + part.length) {
+            return index.termsMatching(part, isCased).length > 0 ? { offset: partOffset, word: part } : undefined;
+        }
+        partOffset += part.length;
+    }
+    return undefined;
+}
+
+// English meaning for a new term: the suggestions first, or free text
+export async function askEnglishMeaning(word: string, language: string, suggestions: string[]): Promise<string | undefined> {
+    const unique = [...new Set(suggestions.filter(Boolean))];
+    const otherItem = '$(edit) Other meaning…';
+    if (unique.length > 0) {
+        const picked = await vscode.window.showQuickPick([...unique, otherItem], {
+            placeHolder: `English meaning of "${word}" in ${language}`,
+        });
+        if (picked !== otherItem) {
+            return picked;
+        }
+    }
+    const typed = await vscode.window.showInputBox({
+        prompt: `Enter the English meaning for "${word}" in ${language}`,
+        placeHolder: 'e.g., new',
+        value: unique[0],
+    });
+    return typed?.trim() || undefined;
+}
+
+class TranslationCodeActionProvider implements vscode.CodeActionProvider {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    constructor(private state: TranslatorState) {}
+
+    provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const docState = this.state.documentState(document);
+        if (!docState.isTargetLanguage || !isInRanges(docState.translatedRanges, document.offsetAt(range.start))) {
+            return [];
+        }
+        const language = docState.language;
+        const languageName = getDictionaryMetadata(language)?.name ?? language;
+        const ownDiagnostics = context.diagnostics.filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE);
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of ownDiagnostics.filter(diagnostic => diagnostic.code === 'untranslated')) {
+            const action = new vscode.CodeAction(`Add to ${languageName} dictionary`, vscode.CodeActionKind.QuickFix);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = true;
+            action.command = { command: ADD_WORD_COMMAND, title: action.title, arguments: [document.uri, diagnostic.range] };
+            actions.push(action);
+        }
+
+        // Other meanings of the translated term under the cursor, for this occurrence only
+        const script = getDocumentScript(language, document.getText(range));
+        const isCased = isCasedScript(script);
+        const term = termAt(document, range.start, docState.dictionary, isCased);
+        if (term) {
+            const dictTerm = getDictionaryIndex(docState.dictionary).termsMatching(term.word, isCased)[0];
+            const identifier = findOccurrenceIdentifier(docState.mappingManager, document.getText(), term.offset, term.word, script, docState.translatedRanges);
+            const current = docState.mappingManager.getAllTerms()[identifier] ?? docState.dictionary[dictTerm][0];
+            const seen = new Set([current.toLowerCase()]);
+            const ambiguity = ownDiagnostics.filter(diagnostic => diagnostic.code === 'ambiguous' && diagnostic.range.contains(document.positionAt(term.offset)));
+            for (const meaning of docState.dictionary[dictTerm]) {
+                // Capitalization variants restore to the same word, matchCase fixes the case
+                if (seen.has(meaning.toLowerCase())) continue;
+                seen.add(meaning.toLowerCase());
+                const action = new vscode.CodeAction(`Use meaning '${meaning}' instead of '${current}'`, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = ambiguity;
+                action.command = { command: USE_MEANING_COMMAND, title: action.title, arguments: [document.uri, term.offset, term.word, meaning] };
+                actions.push(action);
+            }
+        }
+        return actions;
+    }
+}
+
+export function registerCodeActions(context: vscode.ExtensionContext, state: TranslatorState) {
+    const provider = vscode.languages.registerCodeActionsProvider('*', new TranslationCodeActionProvider(state), {
+        providedCodeActionKinds: TranslationCodeActionProvider.providedCodeActionKinds,
+    });
+    context.subscriptions.push(provider);
+    log('Code action provider registered successfully');
+}
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { log } from './utils';
+import { TranslatorState } from './extension';
+import { isInsideComment } from './lexer';
+import { getDictionaryEntry } from './dictionary';
+import { getTokenizerLanguage, isCasedScript, matchCase } from './translation';
+import { getDocumentScript } from './codeActions';
+import { isInRanges } from './translatedRanges';
+import { splitIdentifier } from './identifiers';
+
+// Run when a suggestion is accepted; registered in extension.ts so it can reuse the compound detection
+export const ACCEPT_COMPLETION_COMMAND = 'vscode-translator.acceptCompletion';
+
+// Terms offered by the last completion request, so the edit that accepts one is not treated as typing
+let lastOffer: { uri: string; offset: number; terms: Set<string> } | undefined;
+
+/**
+ * True once for the edit that inserts an offered suggestion. Its meaning is already known, so the
+ * change handler must not ask for one; the accept command maps it instead.
+ */
+export function takeCompletionInsert(document: vscode.TextDocument, offset: number, text: string): boolean {
+    if (!lastOffer || lastOffer.uri !== document.uri.toString() || lastOffer.offset !== offset || !lastOffer.terms.has(text)) {
+        return false;
+    }
+    lastOffer = undefined;
+    return true;
+}
+
+function completionKind(language: string, term: string): vscode.CompletionItemKind {
+    switch (getDictionaryEntry(language, term)?.pos) {
+        case 'keyword': return vscode.CompletionItemKind.Keyword;
+        case 'type': return vscode.CompletionItemKind.TypeParameter;
+        default: return vscode.CompletionItemKind.Text;
+    }
+}
+
+/**
+ * Target-language terms for the word being typed in a translated document, matched by the start of either
+ * the term or one of its English meanings. One item per meaning, so accepting one also picks the meaning.
+ */
+class TranslationCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private state: TranslatorState) {}
+
+    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
+        const docState = this.state.documentState(document);
+        if (!docState.isTargetLanguage) {
+            return [];
+        }
+        const offset = document.offsetAt(position);
+        if (!isInRanges(docState.translatedRanges, offset)) {
+            return [];
+        }
+        if (docState.translationMode === 'comments' && !isInsideComment(document.getText(), getTokenizerLanguage(document), offset)) {
+            return [];
+        }
+
+        // In cased scripts only the identifier part under the cursor is completed
+        const lineBefore = document.lineAt(position.line).text.substring(0, position.character);
+        const isCased = isCasedScript(getDocumentScript(docState.language, lineBefore));
+        const word = lineBefore.match(/[\p{L}\p{M}\p{N}]*$/u)?.[0] ?? '';
+        const prefix = isCased && word ? splitIdentifier(word).pop()! : word;
+        if (!prefix || /^\p{N}+$/u.test(prefix)) {
+            return [];
+        }
+        const lowerPrefix = prefix.toLowerCase();
+        const range = new vscode.Range(position.translate(0, -prefix.length), position);
+
+        const items: vscode.CompletionItem[] = [];
+        const terms = new Set<string>();
+        for (const [term, meanings] of Object.entries(docState.dictionary)) {
+            const termMatches = term.toLowerCase().startsWith(lowerPrefix);
+            const seen = new Set<string>();
+            for (const meaning of meanings) {
+                // Capitalization variants of one meaning are offered once
+                if (seen.has(meaning.toLowerCase())) continue;
+                seen.add(meaning.toLowerCase());
+                const meaningMatches = meaning.toLowerCase().startsWith(lowerPrefix);
+                if (!termMatches && !meaningMatches) continue;
+
+                const insertText = matchCase(prefix, term);
+                const item = new vscode.CompletionItem({ label: insertText, description: meaning }, completionKind(docState.language, term));
+                item.detail = meaning;
+                item.insertText = insertText;
+                // The editor filters on this text, so English matches need the meaning here
+                item.filterText = termMatches ? insertText : meaning;
+                item.sortText = `${termMatches ? 0 : 1}${term.toLowerCase()}`;
+                item.range = range;
+                item.command = { command: ACCEPT_COMPLETION_COMMAND, title: 'Map term', arguments: [document.uri, document.offsetAt(range.start), insertText, meaning] };
+                items.push(item);
+                terms.add(insertText);
+            }
+        }
+        lastOffer = { uri: document.uri.toString(), offset: document.offsetAt(range.start), terms };
+        log(`Offered ${items.length} ${docState.language} completion(s) for '${prefix}'`);
+        return items;
+    }
+}
+
+export function registerCompletionProvider(context: vscode.ExtensionContext, state: TranslatorState) {
+    const provider = vscode.languages.registerCompletionItemProvider('*', new TranslationCompletionProvider(state));
+    context.subscriptions.push(provider);
+    log('Completion provider registered successfully');
+}
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { log } from './utils';
+import { DocumentTranslationState } from './documentState';
+import { getDictionaryMetadata } from './dictionary';
+import { detectScript, getModeClasses, getTokenizerLanguage } from './translation';
+import { analyzeTranslatedText, coveragePercent } from './translationAnalysis';
+
+export const DIAGNOSTIC_SOURCE = 'Natural Language Translator';
+
+export { FindingKind, TranslationFinding, TranslationAnalysis, splitWordParts, analyzeTranslatedText, coveragePercent } from './translationAnalysis';
+
+export function isTranslationDiagnosticsEnabled(): boolean {
+    return vscode.workspace.getConfiguration('vscode-translator').get<boolean>('translationDiagnostics', true);
+}
+
+/**
+ * Problems-panel view of the words left in English or mapped through an ambiguous term,
+ * plus the coverage shown in the status bar, for every translated document.
+ */
+export class TranslationDiagnostics implements vscode.Disposable {
+    private collection = vscode.languages.createDiagnosticCollection('vscode-translator');
+    private coverage = new Map<string, number>();
+    private updateTimers = new Map<string, NodeJS.Timeout>();
+
+    constructor(private onDidUpdate: (uri: vscode.Uri) => void) {}
+
+    update(document: vscode.TextDocument, docState: DocumentTranslationState): void {
+        if (!docState.isTargetLanguage || docState.language === 'en') {
+            this.clear(document.uri);
+            return;
+        }
+        const text = document.getText();
+        const script = getDictionaryMetadata(docState.language)?.script ?? detectScript(text);
+        const analysis = analyzeTranslatedText(text, docState.dictionary, script, docState.tokenizerLanguage ?? getTokenizerLanguage(document),
+            docState.translatedClasses ?? getModeClasses(docState.translationMode), docState.translatedRanges);
+        const languageName = getDictionaryMetadata(docState.language)?.name ?? docState.language;
+
+        const diagnostics = isTranslationDiagnosticsEnabled() ? analysis.findings.map(finding => {
+            const range = new vscode.Range(document.positionAt(finding.offset), document.positionAt(finding.offset + finding.word.length));
+            const diagnostic = finding.kind === 'untranslated'
+                ? new vscode.Diagnostic(range, `'${finding.word}' has no ${languageName} translation`, vscode.DiagnosticSeverity.Information)
+                : new vscode.Diagnostic(range, `'${finding.word}' has several English meanings: ${finding.meanings.join(', ')}`, vscode.DiagnosticSeverity.Hint);
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = finding.kind;
+            return diagnostic;
+        }) : [];
+        this.collection.set(document.uri, diagnostics);
+        this.coverage.set(document.uri.toString(), coveragePercent(analysis));
+        log(`Diagnostics for ${document.uri.toString()}: ${analysis.findings.length} finding(s), ${coveragePercent(analysis)}% coverage`);
+        this.onDidUpdate(document.uri);
+    }
+
+    // Edits arrive per keystroke, so re-analysis waits for a pause in typing
+    scheduleUpdate(document: vscode.TextDocument, docState: DocumentTranslationState): void {
+        const key = document.uri.toString();
+        clearTimeout(this.updateTimers.get(key));
+        this.updateTimers.set(key, setTimeout(() => {
+            this.updateTimers.delete(key);
+            if (!document.isClosed) {
+                this.update(document, docState);
+            }
+        }, 300));
+    }
+
+    clear(uri: vscode.Uri): void {
+        const key = uri.toString();
+        clearTimeout(this.updateTimers.get(key));
+        this.updateTimers.delete(key);
+        this.collection.delete(uri);
+        this.coverage.delete(key);
+    }
+
+    getCoverage(uri: vscode.Uri): number | undefined {
+        return this.coverage.get(uri.toString());
+    }
+
+    dispose(): void {
+        this.updateTimers.forEach(timer => clearTimeout(timer));
+        this.collection.dispose();
+    }
+}
@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Dictionary, Script } from './engine';
+import { isKnownKeyword } from './lexer';
+import { INFLECTIONS, Inflection, inflectEnglish } from './morphology';
+import { setDictionaryEntries } from './indexes';
+
+export const DICTIONARY_SCHEMA_VERSION = 2;
+
+// Glossary layer inside a workspace (or any project folder for the CLI)
+export const WORKSPACE_DICTIONARY_FOLDER = path.join('.vscode', 'nlt');
+
+export type PartOfSpeech = 'keyword' | 'type' | 'verb' | 'noun' | 'adjective' | 'other';
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface DictionaryEntry {
+    // An empty list in a user or workspace layer hides the term from the layers below
+    en: string[];
+    pos?: PartOfSpeech;
+    // VS Code language ids the entry applies to; applies everywhere when missing
+    scopes?: string[];
+    // Target spellings of inflected English words, e.g. the plural for `users` when the term means user
+    forms?: { [inflection in Inflection]?: string };
+    // Spellings added to the entry of the layers below, as learned capitalization variants; written with an empty en
+    variants?: string[];
+}
+
+export interface DictionaryMetadata {
+    code: string;
+    name?: string;
+    nativeName?: string;
+    script?: Script;
+    direction: TextDirection;
+    version?: string;
+    authors?: string[];
+}
+
+export interface DictionaryFile {
+    schemaVersion: number;
+    // $schema reference kept when the file is rewritten
+    schema?: string;
+    metadata: DictionaryMetadata;
+    entries: { [term: string]: DictionaryEntry };
+}
+
+// On-disk v2 layout; an entry may be written as a bare array of English meanings
+interface DictionaryFileV2 {
+    $schema?: string;
+    schemaVersion: 2;
+    language: Omit<DictionaryMetadata, 'version' | 'authors'>;
+    version?: string;
+    authors?: string[];
+    entries: { [term: string]: string[] | DictionaryEntry };
+}
+
+// Names that usually label a type in an annotation or declaration
+const TYPE_NAMES = new Set([
+    'string', 'number', 'boolean', 'bool', 'int', 'integer', 'float', 'double', 'char', 'long', 'short', 'byte',
+    'list', 'array', 'dict', 'tuple', 'object', 'any', 'str'
+]);
+
+// Last merged dictionary per language code, so the hover and translator can reach metadata without re-reading
+const loadedFiles = new Map<string, DictionaryFile>();
+
+export function isDictionaryFileV2(raw: unknown): raw is DictionaryFileV2 {
+    return raw !== null && typeof raw === 'object'
+        && 'schemaVersion' in raw && raw.schemaVersion === DICTIONARY_SCHEMA_VERSION
+        && 'entries' in raw && raw.entries !== null && typeof raw.entries === 'object';
+}
+
+export function parseDictionaryFile(raw: unknown, code: string): DictionaryFile {
+    if (!isDictionaryFileV2(raw)) {
+        // v1: flat { target: [english...] } map without metadata
+        const entries: { [term: string]: DictionaryEntry } = {};
+        for (const [term, en] of Object.entries(raw !== null && typeof raw === 'object' ? raw : {})) {
+            if (Array.isArray(en)) {
+                entries[term] = { en: en as string[] };
+            }
+        }
+        return { schemaVersion: 1, metadata: { code, direction: 'ltr' }, entries };
+    }
+
+    const entries: { [term: string]: DictionaryEntry } = {};
+    for (const [term, entry] of Object.entries(raw.entries)) {
+        entries[term] = Array.isArray(entry) ? { en: entry } : { ...entry, en: entry.en ?? [] };
+    }
+    return {
+        schemaVersion: DICTIONARY_SCHEMA_VERSION,
+        schema: raw.$schema,
+        metadata: { ...raw.language, code: raw.language?.code ?? code, direction: raw.language?.direction ?? 'ltr', version: raw.version, authors: raw.authors },
+        entries,
+    };
+}
+
+export function readDictionaryFile(dictPath: string, code: string): DictionaryFile {
+    const raw = fs.existsSync(dictPath) ? JSON.parse(fs.readFileSync(dictPath, 'utf8')) : {};
+    return parseDictionaryFile(raw, code);
+}
+
+/**
+ * Stacks dictionary layers, lowest first. A term in a higher layer replaces the whole entry below it, unless
+ * it only adds variants, and metadata comes from the highest v2 layer that has it.
+ */
+export function mergeDictionaryFiles(code: string, files: DictionaryFile[]): DictionaryFile {
+    const merged: DictionaryFile = { schemaVersion: 1, metadata: { code, direction: 'ltr' }, entries: {} };
+    for (const file of files) {
+        if (file.schemaVersion === DICTIONARY_SCHEMA_VERSION) {
+            merged.schemaVersion = DICTIONARY_SCHEMA_VERSION;
+            merged.metadata = { ...merged.metadata, ...definedFields(file.metadata) };
+        }
+        for (const [term, entry] of Object.entries(file.entries)) {
+            const below = merged.entries[term];
+            if (entry.en.length === 0 && entry.variants) {
+                if (below) {
+                    merged.entries[term] = { ...below, en: [...new Set([...below.en, ...entry.variants])] };
+                }
+            } else if (entry.en.length === 0) {
+                delete merged.entries[term];
+            } else {
+                merged.entries[term] = entry;
+            }
+        }
+    }
+    return merged;
+}
+
+function definedFields<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as Partial<T>;
+}
+
+export function getDictionaryFile(code: string): DictionaryFile | undefined {
+    return loadedFiles.get(code);
+}
+
+export function getDictionaryMetadata(code: string): DictionaryMetadata | undefined {
+    return loadedFiles.get(code)?.metadata;
+}
+
+export function getDictionaryEntry(code: string, term: string): DictionaryEntry | undefined {
+    return loadedFiles.get(code)?.entries[term];
+}
+
+export function isEntryInScope(entry: DictionaryEntry, languageId?: string): boolean {
+    return !languageId || !entry.scopes || entry.scopes.length === 0 || entry.scopes.includes(languageId);
+}
+
+/**
+ * Flat target -> English map used by the translator, limited to entries that apply to the document language.
+ * Inflected forms become terms of their own, meaning the inflected English words (`usuarios` → users), unless
+ * the form is an entry itself.
+ */
+export function toDictionary(file: DictionaryFile, languageId?: string): Dictionary {
+    const dictionary: Dictionary = {};
+    const inScope = Object.entries(file.entries).filter(([, entry]) => isEntryInScope(entry, languageId));
+    for (const [term, entry] of inScope) {
+        dictionary[term] = [...entry.en];
+    }
+    for (const [, entry] of inScope) {
+        for (const inflection of INFLECTIONS) {
+            const form = entry.forms?.[inflection];
+            if (!form || file.entries[form]) continue;
+            const meanings = entry.en.map(english => inflectEnglish(english, inflection));
+            dictionary[form] = [...new Set([...(dictionary[form] ?? []), ...meanings])];
+        }
+    }
+    // Translating reads parts of speech and forms through the dictionary's index
+    setDictionaryEntries(dictionary, Object.fromEntries(inScope));
+    return dictionary;
+}
+
+// Merges the layer files that exist, lowest first
+export function readDictionaryLayers(layerPaths: string[], code: string): DictionaryFile {
+    const files = layerPaths.filter(layerPath => fs.existsSync(layerPath)).map(layerPath => readDictionaryFile(layerPath, code));
+    const merged = mergeDictionaryFiles(code, files);
+    loadedFiles.set(code, merged);
+    return merged;
+}
+
+export function readDictionary(layerPaths: string[], code: string, languageId?: string): Dictionary {
+    return toDictionary(readDictionaryLayers(layerPaths, code), languageId);
+}
+
+/**
+ * Sets entries in one layer file, creating it as a v2 file when missing. `undefined` drops the term
+ * from this layer; an entry with no English meanings hides the term from the layers below.
+ */
+export function writeDictionaryTerms(layerPath: string, code: string, terms: { [term: string]: DictionaryEntry | undefined }, metadata: DictionaryMetadata): void {
+    const file = readLayerFile(layerPath, code, metadata);
+    for (const [term, entry] of Object.entries(terms)) {
+        if (entry === undefined) {
+            delete file.entries[term];
+        } else {
+            file.entries[term] = { ...file.entries[term], ...entry };
+            // The meanings given replace any variants the layer added
+            delete file.entries[term].variants;
+        }
+    }
+    writeLayerFile(layerPath, file);
+}
+
+/**
+ * Adds spellings to terms in one layer file without copying the entries below: a term the layer defines gets
+ * them as meanings, any other one a variants-only entry. Terms the layer hides are left hidden.
+ */
+export function writeDictionaryVariants(layerPath: string, code: string, variants: { [term: string]: string[] }, metadata: DictionaryMetadata): void {
+    const file = readLayerFile(layerPath, code, metadata);
+    for (const [term, spellings] of Object.entries(variants)) {
+        const entry = file.entries[term];
+        if (entry && entry.en.length > 0) {
+            entry.en = [...new Set([...entry.en, ...spellings])];
+        } else if (!entry || entry.variants) {
+            file.entries[term] = { en: [], variants: [...new Set([...(entry?.variants ?? []), ...spellings])] };
+        }
+    }
+    writeLayerFile(layerPath, file);
+}
+
+// A layer file as stored, created as an empty v2 file when missing
+function readLayerFile(layerPath: string, code: string, metadata: DictionaryMetadata): DictionaryFile {
+    const existing = fs.existsSync(layerPath) ? readDictionaryFile(layerPath, code) : undefined;
+    return existing && existing.schemaVersion === DICTIONARY_SCHEMA_VERSION
+        ? existing
+        : { schemaVersion: DICTIONARY_SCHEMA_VERSION, metadata, entries: existing?.entries ?? {} };
+}
+
+function writeLayerFile(layerPath: string, file: DictionaryFile): void {
+    fs.mkdirSync(path.dirname(layerPath), { recursive: true });
+    fs.writeFileSync(layerPath, formatDictionaryFile(file), 'utf8');
+}
+
+export function inferPartOfSpeech(en: string[]): PartOfSpeech | undefined {
+    if (en.length === 0) {
+        return undefined;
+    }
+    if (en.every(word => TYPE_NAMES.has(word.toLowerCase()))) {
+        return 'type';
+    }
+    if (en.every(word => isKnownKeyword(word))) {
+        return 'keyword';
+    }
+    return undefined;
+}
+
+// Upgrades a v1 file; entries whose meanings are all keywords or type names get a part of speech
+export function migrateDictionaryFile(file: DictionaryFile, metadata: DictionaryMetadata): DictionaryFile {
+    const entries: { [term: string]: DictionaryEntry } = {};
+    for (const [term, entry] of Object.entries(file.entries)) {
+        const pos = entry.pos ?? inferPartOfSpeech(entry.en);
+        entries[term] = pos ? { ...entry, pos } : entry;
+    }
+    return { schemaVersion: DICTIONARY_SCHEMA_VERSION, metadata: { ...file.metadata, ...metadata }, entries };
+}
+
+// One entry per line, bare arrays for plain entries, so files stay easy to diff and hand-edit
+export function formatDictionaryFile(file: DictionaryFile): string {
+    const { code, name, nativeName, script, direction, version, authors } = file.metadata;
+    const header: Omit<DictionaryFileV2, 'entries'> = {
+        ...(file.schema ? { $schema: file.schema } : {}),
+        schemaVersion: DICTIONARY_SCHEMA_VERSION,
+        language: { code, name, nativeName, script, direction },
+        ...(version ? { version } : {}),
+        ...(authors && authors.length > 0 ? { authors } : {}),
+    };
+    const headerText = JSON.stringify(header, null, 2);
+    const lines = Object.entries(file.entries).map(([term, entry]) => {
+        const value = entry.en.length === 0 && entry.variants
+            ? { variants: entry.variants }
+            : entry.en.length === 0 || entry.pos || (entry.scopes && entry.scopes.length > 0) || entry.forms ? entry : entry.en;
+        return `    ${JSON.stringify(term)}: ${JSON.stringify(value)}`;
+    });
+    return `${headerText.slice(0, -2)},\n  "entries": {\n${lines.join(',\n')}\n  }\n}\n`;
+}
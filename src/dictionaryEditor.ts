@@ -0,0 +1,347 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './utils';
+import { TranslatorState } from './extension';
+import { readDictionaryFile, readDictionaryLayers, PartOfSpeech } from './dictionary';
+import { DictionaryLayer, WritableLayer, getLayerFolder, getLayerPaths, getWorkspaceFolderPath, updateDictionaryLayer } from './dictionaryLayers';
+
+// A row of the editor table
+interface EditorEntry {
+    term: string;
+    en: string[];
+    pos?: PartOfSpeech;
+    scopes?: string[];
+    // Highest layer that defines the term
+    layer: DictionaryLayer;
+}
+
+type EditorMessage =
+    | { type: 'ready' }
+    | { type: 'save'; layer: WritableLayer; changes: { [term: string]: string[] } };
+
+// Merged entries of every layer, each tagged with the layer it comes from
+function collectEntries(context: vscode.ExtensionContext, language: string, resource?: vscode.Uri): EditorEntry[] {
+    const merged = readDictionaryLayers(getLayerPaths(context, language, resource), language);
+    const origins = new Map<string, DictionaryLayer>();
+    for (const layer of ['bundled', 'user', 'workspace'] as DictionaryLayer[]) {
+        const folder = getLayerFolder(context, layer, resource);
+        const layerPath = folder && path.join(folder, `${language}.json`);
+        if (!layerPath || !fs.existsSync(layerPath)) continue;
+        for (const [term, entry] of Object.entries(readDictionaryFile(layerPath, language).entries)) {
+            // Variants alone don't make the term the layer's own
+            if (entry.en.length > 0 || !entry.variants) origins.set(term, layer);
+        }
+    }
+    return Object.entries(merged.entries).map(([term, entry]) => ({
+        term,
+        en: entry.en,
+        pos: entry.pos,
+        scopes: entry.scopes,
+        layer: origins.get(term) ?? 'bundled',
+    }));
+}
+
+/**
+ * One editor per language. Saves go through updateDictionaryLayer like Add/Remove from Dictionary:
+ * edits and additions land in the chosen user or workspace layer, and deletions hide the term there.
+ */
+class DictionaryEditorPanel {
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private panel: vscode.WebviewPanel,
+        private context: vscode.ExtensionContext,
+        private language: string,
+        private resource: vscode.Uri | undefined,
+        private onDidSave: (language: string) => void,
+        onDidDispose: () => void
+    ) {
+        panel.webview.html = getEditorHtml(panel.webview, getWorkspaceFolderPath(resource) !== undefined);
+        panel.webview.onDidReceiveMessage((message: EditorMessage) => this.handleMessage(message), undefined, this.disposables);
+        panel.onDidDispose(() => {
+            this.disposables.forEach(disposable => disposable.dispose());
+            onDidDispose();
+        }, undefined, this.disposables);
+    }
+
+    reveal(): void {
+        this.panel.reveal();
+    }
+
+    private postEntries(): void {
+        const entries = collectEntries(this.context, this.language, this.resource);
+        this.panel.webview.postMessage({ type: 'entries', language: this.language, entries });
+    }
+
+    private handleMessage(message: EditorMessage): void {
+        switch (message.type) {
+            case 'ready':
+                this.postEntries();
+                break;
+            case 'save': {
+                const count = Object.keys(message.changes).length;
+                if (count === 0) return;
+                if (!updateDictionaryLayer(this.context, this.language, message.layer, message.changes, this.resource)) return;
+                log(`Dictionary editor saved ${count} change(s) to the ${message.layer} ${this.language} dictionary`);
+                this.postEntries();
+                this.onDidSave(this.language);
+                vscode.window.showInformationMessage(`Saved ${count} change(s) to the ${message.layer} ${this.language} dictionary.`);
+                break;
+            }
+        }
+    }
+}
+
+export function registerDictionaryEditor(context: vscode.ExtensionContext, state: TranslatorState, onDidSave: (language: string) => void) {
+    const panels = new Map<string, DictionaryEditorPanel>();
+
+    const disposable = vscode.commands.registerCommand('vscode-translator.openDictionaryEditor', () => {
+        const language = state.selectedLanguage();
+        if (!language || language === 'en') {
+            vscode.window.showErrorMessage('Please select a target language first.');
+            return;
+        }
+        const existing = panels.get(language);
+        if (existing) {
+            existing.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel('nltDictionaryEditor', `Dictionary: ${language}`, vscode.ViewColumn.Active, {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+        });
+        const resource = vscode.window.activeTextEditor?.document.uri;
+        panels.set(language, new DictionaryEditorPanel(panel, context, language, resource, onDidSave, () => panels.delete(language)));
+        log(`Opened dictionary editor for ${language}`);
+    });
+
+    context.subscriptions.push(disposable);
+    log('Dictionary editor command registered successfully');
+}
+
+function getNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
+}
+
+function getEditorHtml(webview: vscode.Webview, hasWorkspace: boolean): string {
+    const nonce = getNonce();
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 12px; }
+    .toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin: 12px 0; position: sticky; top: 0; background: var(--vscode-editor-background); padding: 6px 0; }
+    input, select, textarea { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 3px 6px; font-family: inherit; }
+    input.cell { width: 100%; box-sizing: border-box; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    table { border-collapse: collapse; width: 100%; }
+    th { text-align: left; cursor: pointer; user-select: none; border-bottom: 1px solid var(--vscode-panel-border); padding: 4px; }
+    td { padding: 2px 4px; vertical-align: middle; }
+    tr.conflict td { background: var(--vscode-inputValidation-warningBackground); }
+    tr.changed td:first-child { border-left: 3px solid var(--vscode-gitDecoration-modifiedResourceForeground); }
+    tr.deleted input { text-decoration: line-through; opacity: 0.6; }
+    .layer, .muted { color: var(--vscode-descriptionForeground); font-size: 0.9em; }
+    #paste { width: 100%; min-height: 80px; display: none; }
+</style>
+</head>
+<body>
+<div class="toolbar">
+    <input id="search" type="search" placeholder="Search terms or meanings">
+    <label><input id="conflictsOnly" type="checkbox"> Conflicts only</label>
+    <button id="add" class="secondary">Add Row</button>
+    <button id="togglePaste" class="secondary">Bulk Paste</button>
+    <span class="muted">Save to</span>
+    <select id="layer">
+        <option value="user">User dictionary</option>
+        ${hasWorkspace ? '<option value="workspace">Workspace dictionary</option>' : ''}
+    </select>
+    <button id="save">Save</button>
+    <span id="status" class="muted"></span>
+</div>
+<textarea id="paste" placeholder="One entry per line: term = meaning, other meaning (a tab also separates the term)"></textarea>
+<table>
+    <thead><tr>
+        <th data-sort="term" id="termHeader">Term</th>
+        <th data-sort="en">English meanings</th>
+        <th data-sort="layer">Layer</th>
+        <th data-sort="conflicts">Conflicts</th>
+        <th></th>
+    </tr></thead>
+    <tbody id="rows"></tbody>
+</table>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    let rows = [];
+    let sortKey = 'term';
+    let sortAscending = true;
+
+    const splitMeanings = text => text.split(',').map(meaning => meaning.trim()).filter(Boolean);
+
+    function toRow(entry) {
+        return { original: entry.term, term: entry.term, en: entry.en.join(', '), layer: entry.layer, pos: entry.pos, state: 'unchanged' };
+    }
+
+    // English meanings listed under several terms, and terms entered twice
+    function findConflicts() {
+        const byMeaning = new Map();
+        const byTerm = new Map();
+        for (const row of rows) {
+            if (row.state === 'deleted' || !row.term) continue;
+            byTerm.set(row.term, (byTerm.get(row.term) || []).concat(row));
+            for (const meaning of new Set(splitMeanings(row.en).map(m => m.toLowerCase()))) {
+                byMeaning.set(meaning, (byMeaning.get(meaning) || []).concat(row));
+            }
+        }
+        const conflicts = new Map();
+        const note = (row, text) => conflicts.set(row, (conflicts.get(row) || []).concat(text));
+        byMeaning.forEach((list, meaning) => {
+            if (list.length > 1) list.forEach(row => note(row, '"' + meaning + '" also under ' + list.filter(other => other !== row).map(other => other.term).join(', ')));
+        });
+        byTerm.forEach((list, term) => {
+            if (list.length > 1) list.forEach(row => note(row, 'duplicate term'));
+        });
+        return conflicts;
+    }
+
+    function render() {
+        const query = document.getElementById('search').value.trim().toLowerCase();
+        const conflictsOnly = document.getElementById('conflictsOnly').checked;
+        const conflicts = findConflicts();
+        const value = row => sortKey === 'conflicts' ? (conflicts.get(row) || []).length : String(row[sortKey] || '').toLowerCase();
+        const visible = rows
+            .filter(row => !query || row.term.toLowerCase().includes(query) || row.en.toLowerCase().includes(query))
+            .filter(row => !conflictsOnly || conflicts.has(row))
+            .sort((a, b) => (value(a) < value(b) ? -1 : value(a) > value(b) ? 1 : 0) * (sortAscending ? 1 : -1));
+
+        const body = document.getElementById('rows');
+        body.textContent = '';
+        for (const row of visible) {
+            const tr = document.createElement('tr');
+            tr.className = [conflicts.has(row) ? 'conflict' : '', row.state !== 'unchanged' ? 'changed' : '', row.state === 'deleted' ? 'deleted' : ''].join(' ');
+            tr.appendChild(inputCell(row, 'term'));
+            tr.appendChild(inputCell(row, 'en'));
+            tr.appendChild(textCell(row.layer + (row.pos ? ' · ' + row.pos : ''), 'layer'));
+            tr.appendChild(textCell((conflicts.get(row) || []).join('; '), 'muted'));
+            const action = document.createElement('td');
+            const button = document.createElement('button');
+            button.className = 'secondary';
+            button.textContent = row.state === 'deleted' ? 'Restore' : 'Delete';
+            button.onclick = () => {
+                if (row.state === 'added') {
+                    rows = rows.filter(other => other !== row);
+                } else {
+                    row.state = row.state === 'deleted' ? (row.term === row.original && row.en === row.savedEn ? 'unchanged' : 'edited') : 'deleted';
+                }
+                render();
+            };
+            action.appendChild(button);
+            tr.appendChild(action);
+            body.appendChild(tr);
+        }
+        const pending = rows.filter(row => row.state !== 'unchanged').length;
+        document.getElementById('status').textContent = visible.length + ' of ' + rows.length + ' entries' + (pending ? ', ' + pending + ' unsaved' : '') + (conflicts.size ? ', ' + conflicts.size + ' in conflict' : '');
+    }
+
+    function inputCell(row, field) {
+        const td = document.createElement('td');
+        const input = document.createElement('input');
+        input.className = 'cell';
+        input.value = row[field];
+        input.disabled = row.state === 'deleted';
+        input.onchange = () => {
+            row[field] = input.value.trim();
+            if (row.state === 'unchanged') row.state = 'edited';
+            render();
+        };
+        td.appendChild(input);
+        return td;
+    }
+
+    function textCell(text, className) {
+        const td = document.createElement('td');
+        td.className = className;
+        td.textContent = text;
+        return td;
+    }
+
+    // Renamed terms hide the old spelling; deleted ones get an empty list that hides them from the layers below
+    function collectChanges() {
+        const changes = {};
+        for (const row of rows) {
+            if (row.state === 'unchanged') continue;
+            if (row.original && (row.state === 'deleted' || row.term !== row.original)) {
+                changes[row.original] = [];
+            }
+            if (row.state !== 'deleted' && row.term) {
+                changes[row.term] = splitMeanings(row.en);
+            }
+        }
+        return changes;
+    }
+
+    document.querySelectorAll('th[data-sort]').forEach(th => th.onclick = () => {
+        sortAscending = sortKey === th.dataset.sort ? !sortAscending : true;
+        sortKey = th.dataset.sort;
+        render();
+    });
+    document.getElementById('search').oninput = render;
+    document.getElementById('conflictsOnly').onchange = render;
+    document.getElementById('add').onclick = () => {
+        rows.unshift({ original: '', term: '', en: '', layer: document.getElementById('layer').value, state: 'added' });
+        document.getElementById('search').value = '';
+        render();
+        document.querySelector('#rows input').focus();
+    };
+    document.getElementById('togglePaste').onclick = () => {
+        const paste = document.getElementById('paste');
+        const button = document.getElementById('togglePaste');
+        if (paste.style.display !== 'block') {
+            paste.style.display = 'block';
+            button.textContent = 'Add Pasted Rows';
+            paste.focus();
+            return;
+        }
+        // Pasted lines become new rows, or edit the row that already has the term
+        for (const line of paste.value.split(/\\r?\\n/)) {
+            const match = line.match(/^\\s*([^=\\t]+?)\\s*(?:=|\\t)\\s*(.+)$/);
+            if (!match) continue;
+            const existing = rows.find(row => row.term === match[1]);
+            if (existing) {
+                existing.en = splitMeanings(existing.en + ',' + match[2]).filter((m, i, all) => all.indexOf(m) === i).join(', ');
+                if (existing.state === 'unchanged') existing.state = 'edited';
+            } else {
+                rows.unshift({ original: '', term: match[1], en: splitMeanings(match[2]).join(', '), layer: document.getElementById('layer').value, state: 'added' });
+            }
+        }
+        paste.value = '';
+        paste.style.display = 'none';
+        button.textContent = 'Bulk Paste';
+        render();
+    };
+    document.getElementById('save').onclick = () => {
+        vscode.postMessage({ type: 'save', layer: document.getElementById('layer').value, changes: collectChanges() });
+    };
+
+    window.addEventListener('message', event => {
+        if (event.data.type === 'entries') {
+            document.getElementById('termHeader').textContent = event.data.language + ' term';
+            rows = event.data.entries.map(entry => Object.assign(toRow(entry), { savedEn: entry.en.join(', ') }));
+            render();
+        }
+    });
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './utils';
+import { Dictionary } from './translation';
+import { WORKSPACE_DICTIONARY_FOLDER, DictionaryEntry, DictionaryFile, DictionaryMetadata, readDictionary, readDictionaryLayers, writeDictionaryTerms, writeDictionaryVariants } from './dictionary';
+
+// Lowest first: bundled with the extension, the user's global storage, then the workspace glossary
+export type DictionaryLayer = 'bundled' | 'user' | 'workspace';
+
+// The bundled layer ships with the extension and is replaced on every update, so it is never written
+export type WritableLayer = Exclude<DictionaryLayer, 'bundled'>;
+
+export function getBundledFolder(context: vscode.ExtensionContext): string {
+    return path.join(context.extensionPath, 'out', 'languages', 'languages');
+}
+
+export function getUserFolder(context: vscode.ExtensionContext): string {
+    return path.join(context.globalStorageUri.fsPath, 'dictionaries');
+}
+
+// The glossary of the resource's workspace folder, or of the first folder when there is no resource
+export function getWorkspaceFolderPath(resource?: vscode.Uri): string | undefined {
+    const folder = (resource && vscode.workspace.getWorkspaceFolder(resource)) ?? vscode.workspace.workspaceFolders?.[0];
+    return folder ? path.join(folder.uri.fsPath, WORKSPACE_DICTIONARY_FOLDER) : undefined;
+}
+
+export function getLayerFolder(context: vscode.ExtensionContext, layer: DictionaryLayer, resource?: vscode.Uri): string | undefined {
+    switch (layer) {
+        case 'bundled': return getBundledFolder(context);
+        case 'user': return getUserFolder(context);
+        case 'workspace': return getWorkspaceFolderPath(resource);
+    }
+}
+
+export function getLayerPaths(context: vscode.ExtensionContext, language: string, resource?: vscode.Uri): string[] {
+    const layers: DictionaryLayer[] = ['bundled', 'user', 'workspace'];
+    return layers
+        .map(layer => getLayerFolder(context, layer, resource))
+        .filter((folder): folder is string => folder !== undefined)
+        .map(folder => path.join(folder, `${language}.json`));
+}
+
+// The merged layers the resource sees, read again rather than taken from the cache of whichever folder loaded last
+function readMergedLayers(context: vscode.ExtensionContext, language: string, resource?: vscode.Uri): DictionaryFile {
+    return readDictionaryLayers(getLayerPaths(context, language, resource), language);
+}
+
+export function loadLayeredDictionary(context: vscode.ExtensionContext, language: string, languageId?: string, resource?: vscode.Uri): Dictionary {
+    return readDictionary(getLayerPaths(context, language, resource), language, languageId);
+}
+
+// Languages with a dictionary in any layer, with the layers that provide each
+export function listDictionaryLayers(context: vscode.ExtensionContext, resource?: vscode.Uri): Map<string, DictionaryLayer[]> {
+    const languages = new Map<string, DictionaryLayer[]>();
+    for (const layer of ['bundled', 'user', 'workspace'] as DictionaryLayer[]) {
+        const folder = getLayerFolder(context, layer, resource);
+        if (!folder || !fs.existsSync(folder)) continue;
+        try {
+            for (const file of fs.readdirSync(folder).filter(name => name.endsWith('.json'))) {
+                const language = path.basename(file, '.json');
+                languages.set(language, [...(languages.get(language) ?? []), layer]);
+            }
+        } catch (error) {
+            log(`Error reading dictionary folder ${folder}: ${error}`);
+        }
+    }
+    return languages;
+}
+
+/**
+ * Sets the English meanings of terms in the user or workspace layer (`undefined` drops the term from
+ * that layer, an empty list hides it). Overrides keep the part of speech and scopes of the merged entry,
+ * and new layer files copy its language metadata.
+ */
+export function updateDictionaryLayer(
+    context: vscode.ExtensionContext,
+    language: string,
+    layer: WritableLayer,
+    terms: { [term: string]: string[] | undefined },
+    resource?: vscode.Uri
+): boolean {
+    const folder = getLayerFolder(context, layer, resource);
+    if (!folder) {
+        vscode.window.showErrorMessage('Open a workspace folder to use a workspace dictionary.');
+        return false;
+    }
+    const layerPath = path.join(folder, `${language}.json`);
+    const merged = readMergedLayers(context, language, resource);
+    const entries: { [term: string]: DictionaryEntry | undefined } = {};
+    for (const [term, en] of Object.entries(terms)) {
+        entries[term] = en === undefined ? undefined : { ...merged.entries[term], en };
+    }
+    try {
+        writeDictionaryTerms(layerPath, language, entries, layerMetadata(merged));
+        log(`Updated ${layer} dictionary ${layerPath}: ${JSON.stringify(terms)}`);
+        return true;
+    } catch (error) {
+        log(`Error writing ${layerPath}: ${error}`);
+        vscode.window.showErrorMessage(`Could not write the ${layer} dictionary ${layerPath}: ${error}`);
+        return false;
+    }
+}
+
+/**
+ * Saves capitalization variants met while translating to the user layer. Only the spellings the merged entry
+ * lacks are written, and merged into it at load time, so later changes to the layers below still apply.
+ */
+export function addDictionaryVariants(context: vscode.ExtensionContext, language: string, variants: { [term: string]: string[] }, resource?: vscode.Uri): void {
+    const merged = readMergedLayers(context, language, resource);
+    const added: { [term: string]: string[] } = {};
+    for (const [term, spellings] of Object.entries(variants)) {
+        const known = merged.entries[term]?.en ?? [];
+        const missing = spellings.filter(spelling => !known.includes(spelling));
+        if (missing.length > 0) added[term] = missing;
+    }
+    if (Object.keys(added).length === 0) return;
+    const layerPath = path.join(getUserFolder(context), `${language}.json`);
+    try {
+        writeDictionaryVariants(layerPath, language, added, layerMetadata(merged));
+        log(`Added variants to the user dictionary ${layerPath}: ${JSON.stringify(added)}`);
+    } catch (error) {
+        log(`Error writing ${layerPath}: ${error}`);
+        vscode.window.showErrorMessage(`Could not write the user dictionary ${layerPath}: ${error}`);
+    }
+}
+
+// New layer files copy the language metadata of the merged dictionary
+function layerMetadata(merged: DictionaryFile): DictionaryMetadata {
+    const { code, name, nativeName, script, direction } = merged.metadata;
+    return { code, name, nativeName, script, direction };
+}
+
+export async function pickDictionaryLayer(language: string, action: string, resource?: vscode.Uri): Promise<WritableLayer | undefined> {
+    const items: (vscode.QuickPickItem & { layer: WritableLayer })[] = [
+        { label: 'User', description: 'Only on this machine, for every workspace', layer: 'user' },
+    ];
+    const workspaceFolder = getWorkspaceFolderPath(resource);
+    if (workspaceFolder) {
+        items.push({ label: 'Workspace', description: path.join(WORKSPACE_DICTIONARY_FOLDER, `${language}.json`) + ' (can be committed and shared)', layer: 'workspace' });
+    }
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `Which ${language} dictionary should ${action}?`,
+        ignoreFocusOut: true,
+    });
+    return picked?.layer;
+}
+
+// Fires with the language code when a workspace glossary is created, edited (e.g. by a pull) or deleted
+export function watchWorkspaceDictionaries(onChange: (language: string) => void): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${WORKSPACE_DICTIONARY_FOLDER.split(path.sep).join('/')}/*.json`);
+    const notify = (uri: vscode.Uri) => onChange(path.basename(uri.fsPath, '.json'));
+    watcher.onDidCreate(notify);
+    watcher.onDidChange(notify);
+    watcher.onDidDelete(notify);
+    return watcher;
+}
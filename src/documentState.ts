@@ -0,0 +1,318 @@
+import * as vscode from 'vscode';
+import { log } from './utils';
+import {
+    EditSpan, MappingManager, MappingDelta, MappingSnapshot, ScopedMemento, EMPTY_MAPPING, applyMappingDeltas, composeMappingDeltas,
+    diffMappingSnapshots
+} from './mappings';
+import { hashText } from './sidecarFile';
+import { Dictionary, TranslationMode, loadDictionary, stripBidiIsolation } from './translation';
+import { TranslatedRange } from './translatedRanges';
+import { TokenClass } from './lexer';
+
+// Enough to step back through a few dozen words of undo history
+const MAX_STATE_SNAPSHOTS = 100;
+// Typing settles into one snapshot once it pauses, rather than one per keystroke
+const SNAPSHOT_DELAY_MS = 500;
+
+// Everything undo or redo has to put back, for the text the document had at `version`
+interface StateSnapshot {
+    version: number;
+    textHash: string;
+    isTargetLanguage: boolean;
+    language: string;
+    translationMode: TranslationMode;
+    translatedClasses: TokenClass[] | null;
+    tokenizerLanguage: string | null;
+    rtlIsolated: boolean;
+    translatedRanges: TranslatedRange[] | null;
+    lastTranslatedText: string | null;
+    lastOriginalText: string | null;
+    dictionary: Dictionary;
+    // Change from the mapping of the snapshot before, or from baseMapping for the oldest one
+    mapping: MappingDelta;
+}
+
+/**
+ * Toggle state, snapshots and mapping of a single document.
+ * Everything except the in-memory dictionary is kept in workspaceState under the document URI; the translated
+ * text an edit remaps to is stored once typing pauses.
+ */
+export class DocumentTranslationState {
+    readonly uri: string;
+    readonly mappingManager: MappingManager;
+    dictionary: Dictionary = {};
+    lastDocumentText: string | null = null;
+    // Document version the translated ranges were last stored for; older change events are already in them
+    rangesVersion = 0;
+    private storage: ScopedMemento;
+    // In memory only, like the editor's undo stack
+    private snapshots: StateSnapshot[] = [];
+    // Mapping the oldest snapshot's change applies to, and the one the newest snapshot leads to
+    private baseMapping: MappingSnapshot = EMPTY_MAPPING;
+    private newestMapping: MappingSnapshot = EMPTY_MAPPING;
+    private pendingSnapshot: { timer: NodeJS.Timeout; text: string; version: number } | undefined;
+    // lastTranslatedText, read from workspaceState once; remapping updates it on every keystroke without storing it
+    private translatedText: string | null | undefined;
+    private translatedTextChanged = false;
+
+    constructor(context: vscode.ExtensionContext, uri: vscode.Uri) {
+        this.uri = uri.toString();
+        this.storage = new ScopedMemento(context.workspaceState, this.uri);
+        this.mappingManager = new MappingManager(this.storage);
+        if (this.isTargetLanguage && this.language !== 'en') {
+            this.dictionary = loadDictionary(context, this.language, undefined, uri);
+        }
+    }
+
+    get isTargetLanguage(): boolean {
+        return this.storage.get('isTargetLanguage', false) as boolean;
+    }
+
+    set isTargetLanguage(value: boolean) {
+        this.storage.update('isTargetLanguage', value);
+    }
+
+    get translationMode(): TranslationMode {
+        return this.storage.get('translationMode', 'full') as TranslationMode;
+    }
+
+    set translationMode(value: TranslationMode) {
+        this.storage.update('translationMode', value);
+    }
+
+    get language(): string {
+        return this.storage.get('language', 'en') as string;
+    }
+
+    set language(value: string) {
+        this.storage.update('language', value);
+    }
+
+    // Token classes the document was translated with; restoring uses them rather than the current settings
+    get translatedClasses(): TokenClass[] | null {
+        return this.storage.get<TokenClass[] | null>('translatedClasses', null) ?? null;
+    }
+
+    set translatedClasses(value: TokenClass[] | null) {
+        this.storage.update('translatedClasses', value ?? undefined);
+    }
+
+    // Language the document was tokenized as when translated, 'plaintext' with syntax-aware tokenization off
+    get tokenizerLanguage(): string | null {
+        return this.storage.get<string | null>('tokenizerLanguage', null) ?? null;
+    }
+
+    set tokenizerLanguage(value: string | null) {
+        this.storage.update('tokenizerLanguage', value ?? undefined);
+    }
+
+    // True while the buffer carries bidi isolation marks around RTL words
+    get rtlIsolated(): boolean {
+        return this.storage.get('rtlIsolated', false) as boolean;
+    }
+
+    set rtlIsolated(value: boolean) {
+        this.storage.update('rtlIsolated', value);
+    }
+
+    // Translated parts of a partially translated document, kept up to date as it is edited; null for the whole document
+    get translatedRanges(): TranslatedRange[] | null {
+        return this.storage.get<TranslatedRange[] | null>('translatedRanges', null) ?? null;
+    }
+
+    set translatedRanges(value: TranslatedRange[] | null) {
+        this.storage.update('translatedRanges', value ?? undefined);
+    }
+
+    // The translated text as it stands in the document, which the mapping's identifiers and positions refer to
+    get lastTranslatedText(): string | null {
+        if (this.translatedText === undefined) {
+            this.translatedText = this.storage.get<string | null>('lastTranslatedText', null) ?? null;
+        }
+        return this.translatedText;
+    }
+
+    set lastTranslatedText(value: string | null) {
+        this.translatedText = value;
+        this.translatedTextChanged = false;
+        this.storage.update('lastTranslatedText', value ?? undefined);
+    }
+
+    // Stores the text remapping kept in memory; called when typing pauses, on save and when the document closes
+    persistTranslatedText(): void {
+        if (!this.translatedTextChanged) return;
+        this.translatedTextChanged = false;
+        this.storage.update('lastTranslatedText', this.translatedText ?? undefined);
+    }
+
+    get lastOriginalText(): string | null {
+        return this.storage.get<string | null>('lastOriginalText', null) ?? null;
+    }
+
+    set lastOriginalText(value: string | null) {
+        this.storage.update('lastOriginalText', value ?? undefined);
+    }
+
+    // Records the state for the document's text as it is now, so undoing or redoing back to that text can restore it
+    takeSnapshot(document: vscode.TextDocument): void {
+        this.cancelScheduledSnapshot();
+        this.recordSnapshot(document.getText(), document.version);
+    }
+
+    // takeSnapshot once edits to the document pause
+    scheduleSnapshot(document: vscode.TextDocument): void {
+        this.cancelScheduledSnapshot();
+        const timer = setTimeout(() => {
+            this.pendingSnapshot = undefined;
+            if (!document.isClosed) {
+                this.takeSnapshot(document);
+            }
+        }, SNAPSHOT_DELAY_MS);
+        this.pendingSnapshot = { timer, text: document.getText(), version: document.version };
+    }
+
+    /**
+     * Takes the scheduled snapshot now, before an undo or redo changes the state. Only while the state still
+     * describes the text it was scheduled for, which the version one before the event's says.
+     */
+    flushScheduledSnapshot(document: vscode.TextDocument): void {
+        const pending = this.pendingSnapshot;
+        this.cancelScheduledSnapshot();
+        if (pending && pending.version === document.version - 1) {
+            this.recordSnapshot(pending.text, pending.version);
+        }
+    }
+
+    private cancelScheduledSnapshot(): void {
+        clearTimeout(this.pendingSnapshot?.timer);
+        this.pendingSnapshot = undefined;
+    }
+
+    private recordSnapshot(text: string, version: number): void {
+        this.persistTranslatedText();
+        const textHash = hashText(text);
+        const mapping = this.mappingManager.exportSnapshot();
+        let delta = diffMappingSnapshots(this.newestMapping, mapping);
+        const index = this.snapshots.findIndex(snapshot => snapshot.textHash === textHash);
+        if (index >= 0 && index === this.snapshots.length - 1) {
+            // Replaces the newest snapshot, whose change now leads up to this one
+            delta = composeMappingDeltas(this.snapshots.pop()!.mapping, delta);
+        } else if (index >= 0) {
+            this.dropSnapshot(index);
+        }
+        this.snapshots.push({
+            version,
+            textHash,
+            isTargetLanguage: this.isTargetLanguage,
+            language: this.language,
+            translationMode: this.translationMode,
+            translatedClasses: this.translatedClasses,
+            tokenizerLanguage: this.tokenizerLanguage,
+            rtlIsolated: this.rtlIsolated,
+            translatedRanges: this.translatedRanges,
+            lastTranslatedText: this.lastTranslatedText,
+            lastOriginalText: this.lastOriginalText,
+            dictionary: this.dictionary,
+            mapping: delta,
+        });
+        this.newestMapping = mapping;
+        if (this.snapshots.length > MAX_STATE_SNAPSHOTS) {
+            this.dropSnapshot(0);
+        }
+    }
+
+    // Removes a snapshot other than the newest, handing its change on to the one after it
+    private dropSnapshot(index: number): void {
+        const [dropped] = this.snapshots.splice(index, 1);
+        if (index === 0) {
+            this.baseMapping = applyMappingDeltas(this.baseMapping, [dropped.mapping]);
+        } else {
+            this.snapshots[index].mapping = composeMappingDeltas(dropped.mapping, this.snapshots[index].mapping);
+        }
+    }
+
+    /**
+     * After an undo or redo: puts back the state recorded for the text the document returned to. Undo gives the text
+     * a new version number, so the snapshot is found by its text. False when none was recorded for it.
+     */
+    restoreSnapshot(document: vscode.TextDocument): boolean {
+        const textHash = hashText(document.getText());
+        const index = this.snapshots.findIndex(candidate => candidate.textHash === textHash);
+        if (index < 0) return false;
+        const snapshot = this.snapshots[index];
+        this.isTargetLanguage = snapshot.isTargetLanguage;
+        this.language = snapshot.language;
+        this.translationMode = snapshot.translationMode;
+        this.translatedClasses = snapshot.translatedClasses;
+        this.tokenizerLanguage = snapshot.tokenizerLanguage;
+        this.rtlIsolated = snapshot.rtlIsolated;
+        this.translatedRanges = snapshot.translatedRanges?.map(range => ({ ...range })) ?? null;
+        this.rangesVersion = document.version;
+        this.lastTranslatedText = snapshot.lastTranslatedText;
+        this.lastOriginalText = snapshot.lastOriginalText;
+        this.dictionary = snapshot.dictionary;
+        this.mappingManager.importSnapshot(applyMappingDeltas(this.baseMapping, this.snapshots.slice(0, index + 1).map(earlier => earlier.mapping)));
+        this.lastDocumentText = document.getText();
+        log(`Restored the state of version ${snapshot.version} (${snapshot.isTargetLanguage ? snapshot.language : 'en'}) for ${this.uri} at version ${document.version}`);
+        return true;
+    }
+
+    /**
+     * Moves the mapping along with an edit of the translated document; the English source it came from no longer
+     * matches. The changes of the edit limit the diff to the lines they touched.
+     */
+    remapTo(text: string, changes?: readonly vscode.TextDocumentContentChangeEvent[]): void {
+        const before = this.lastTranslatedText;
+        const after = this.rtlIsolated ? stripBidiIsolation(text) : text;
+        if (before === null || before === after) return;
+        // Isolation marks move the document's offsets away from the text the mapping describes
+        const edit = changes && changes.length > 0 && !this.rtlIsolated ? editSpan(changes) : undefined;
+        this.mappingManager.remap(before, after, this.translatedRanges, edit);
+        // Stored with the next snapshot rather than as a copy of the whole file per keystroke
+        this.translatedText = after;
+        this.translatedTextChanged = true;
+        if (this.lastOriginalText !== null) {
+            this.lastOriginalText = null;
+        }
+    }
+}
+
+// All changes of one edit event, which are given against the text before it
+function editSpan(changes: readonly vscode.TextDocumentContentChangeEvent[]): EditSpan {
+    let start = Infinity;
+    let beforeEnd = 0;
+    let growth = 0;
+    for (const change of changes) {
+        start = Math.min(start, change.rangeOffset);
+        beforeEnd = Math.max(beforeEnd, change.rangeOffset + change.rangeLength);
+        growth += change.text.length - change.rangeLength;
+    }
+    return { start, beforeEnd, afterEnd: beforeEnd + growth };
+}
+
+export class DocumentStateRegistry {
+    private states = new Map<string, DocumentTranslationState>();
+
+    constructor(private context: vscode.ExtensionContext) {}
+
+    get(uri: vscode.Uri): DocumentTranslationState {
+        const key = uri.toString();
+        let state = this.states.get(key);
+        if (!state) {
+            state = new DocumentTranslationState(this.context, uri);
+            this.states.set(key, state);
+            log(`Created translation state for ${key}`);
+        }
+        return state;
+    }
+
+    // Drops the in-memory copy only; the persisted mapping stays so the document can be reopened and toggled back
+    release(uri: vscode.Uri): void {
+        this.states.get(uri.toString())?.persistTranslatedText();
+        this.states.delete(uri.toString());
+    }
+
+    translatedDocuments(): DocumentTranslationState[] {
+        return [...this.states.values()].filter(state => state.isTargetLanguage);
+    }
+}
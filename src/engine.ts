@@ -0,0 +1,703 @@
+/**
+ * Editor-independent translation engine: script detection, tokenizing, translating to a target language and back,
+ * and compound splitting. Nothing here depends on VS Code, so the CLI runs the same code as the extension.
+ */
+import { MappingManager } from './mappings';
+import { log } from './utils';
+import { TokenClass, ALL_TOKEN_CLASSES, DEFAULT_TRANSLATED_CLASSES, isLexerSupported, splitTranslatable } from './lexer';
+import { PartOfSpeech, getDictionaryMetadata } from './dictionary';
+import { DictionaryIndex, OccurrenceCounter, countMatches, getDictionaryIndex } from './indexes';
+import { TranslatedRange, mapRangesThroughTokens, tokensInRanges } from './translatedRanges';
+import { applyConvention, identifierConventionsOf, splitIdentifier } from './identifiers';
+import { applyCaseStyle, detectCaseStyle } from './caseStyle';
+import { englishLemmas } from './morphology';
+
+export interface Dictionary {
+    [key: string]: string[];
+}
+
+// 'comments' only touches comments, JSDoc and docstrings so code stays exactly as written
+export type TranslationMode = 'full' | 'comments';
+
+// Dictionary of the active translated document, used by the segmenters and edit handling
+export let currentDictionary: Dictionary = {};
+
+export function setCurrentDictionary(dictionary: Dictionary): void {
+    currentDictionary = dictionary;
+}
+
+export function getTokenRegex(script: string): RegExp {
+    return /[\p{L}\p{M}\p{N}]+|[^\s\p{L}\p{M}\p{N}]+|\s+/gu;
+}
+
+export type Script = 'latin' | 'cyrillic' | 'devanagari' | 'logographic' | 'arabic' | 'hebrew'
+    | 'hangul' | 'japanese' | 'bengali' | 'greek' | 'thai';
+
+export const RTL_SCRIPTS: Script[] = ['arabic', 'hebrew'];
+
+// Scripts with upper and lower case, where mapping identifiers are case-folded
+export const CASED_SCRIPTS: Script[] = ['latin', 'cyrillic', 'greek'];
+
+export function isCasedScript(script: string): boolean {
+    return (CASED_SCRIPTS as string[]).includes(script);
+}
+
+// Arabic (also Persian and Urdu letters), Arabic Supplement/Extended-A and presentation forms
+const ARABIC_RANGE = '\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF';
+const HEBREW_RANGE = '\u0590-\u05FF\uFB1D-\uFB4F';
+
+export function detectScript(text: string): Script {
+    // Kana marks Japanese even when most of the text is Kanji
+    if (/[\u3040-\u30FF\u31F0-\u31FF\uFF66-\uFF9F]/.test(text)) return 'japanese';
+    if (/[\uAC00-\uD7AF\u1100-\u11FF\u3130-\u318F]/.test(text)) return 'hangul';
+    if (/[\u4E00-\u9FFF]/.test(text)) return 'logographic';
+    if (/[\u0900-\u097F]/.test(text)) return 'devanagari';
+    if (new RegExp(`[${ARABIC_RANGE}]`).test(text)) return 'arabic';
+    if (new RegExp(`[${HEBREW_RANGE}]`).test(text)) return 'hebrew';
+    if (/[\u0980-\u09FF]/.test(text)) return 'bengali';
+    if (/[\u0E00-\u0E7F]/.test(text)) return 'thai';
+    if (/[\u0370-\u03FF\u1F00-\u1FFF]/.test(text)) return 'greek';
+    if (/[а-яА-ЯёЁ]/.test(text)) return 'cyrillic';
+    return 'latin';
+}
+
+// First Strong Isolate / Pop Directional Isolate keep RTL identifiers from reordering the surrounding LTR code
+const FSI = '\u2068';
+const PDI = '\u2069';
+const RTL_WORD_REGEX = new RegExp(`[\\p{L}\\p{M}\\p{N}]*[${ARABIC_RANGE}${HEBREW_RANGE}][\\p{L}\\p{M}\\p{N}]*`, 'gu');
+
+export function containsRightToLeft(text: string): boolean {
+    return RTL_SCRIPTS.includes(detectScript(text));
+}
+
+export function isolateRightToLeft(text: string): string {
+    return stripBidiIsolation(text).replace(RTL_WORD_REGEX, word => `${FSI}${word}${PDI}`);
+}
+
+export function stripBidiIsolation(text: string): string {
+    return text.replace(/[\u2068\u2069]/g, '');
+}
+
+/**
+ * The target in the case style of the source word (see caseStyle.ts), with the target language's casing rules.
+ * Mixed-case sources only pass on the case of their first letter. joinWords is for parts of an identifier.
+ */
+export function matchCase(source: string, target: string, language = 'en', joinWords = false): string {
+    const style = detectCaseStyle(source);
+    if (style !== 'mixed') {
+        return applyCaseStyle(target, style, language, joinWords);
+    }
+    return applyCaseStyle(target, /^\p{Lu}/u.test(source) ? 'pascal' : 'camel', language, joinWords);
+}
+
+// Target term for an English word; with several candidates the one tagged with the wanted part of speech wins
+function findTargetTerm(index: DictionaryIndex, english: string, preferredPos?: PartOfSpeech): string | undefined {
+    const candidates = index.targetsFor(english);
+    if (preferredPos && candidates.length > 1) {
+        const preferred = candidates.find(term => index.entryOf(term)?.pos === preferredPos);
+        if (preferred) {
+            return preferred;
+        }
+    }
+    return candidates[0];
+}
+
+/**
+ * Target word for an inflected English word (`users`, `loaded`, `running`) whose dictionary form is a meaning:
+ * the entry's matching form when it has one, the term itself otherwise. Keyword terms are skipped, since an
+ * inflected word is never the keyword (`news` is not new).
+ */
+function findInflectedTerm(index: DictionaryIndex, english: string): string | undefined {
+    for (const { lemma, inflection } of englishLemmas(english)) {
+        for (const term of index.targetsFor(lemma)) {
+            const entry = index.entryOf(term);
+            if (entry?.pos === 'keyword') continue;
+            return entry?.forms?.[inflection] ?? term;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Adds words of the text that differ from a meaning only in capitalization (`Read` for `read`) to the dictionary
+ * as meanings of their own, so uncased scripts restore them as written. Returns the terms that changed.
+ */
+export function addCapitalizationVariants(text: string, dictionary: Dictionary): { [term: string]: string[] } {
+    const variants: { [term: string]: string[] } = {};
+    const tokens = text.match(getTokenRegex(detectScript(text))) || [];
+    const index = getDictionaryIndex(dictionary);
+    for (const token of tokens) {
+        if (!token.trim() || /[^\p{L}\p{M}\p{N}]+|\s+/u.test(token)) continue;
+        for (const targetTerm of index.targetsFor(token)) {
+            const enTerms = dictionary[targetTerm];
+            if (!enTerms.includes(token)) {
+                enTerms.push(token);
+                variants[targetTerm] = enTerms;
+                log(`Auto-added capitalization variant '${token}' to '${targetTerm}'`);
+            }
+        }
+    }
+    return variants;
+}
+
+// Receives capitalization variants of dictionary terms met while translating, e.g. to save them to a dictionary layer
+export type VariantHandler = (variants: { [term: string]: string[] }) => void;
+
+/**
+ * Given ranges, only the text inside them is translated, and they are moved to where they end up in the result.
+ * Without onVariants the learned variants only live in the passed dictionary.
+ */
+export async function translateToTarget(
+    text: string,
+    dictionary: Dictionary,
+    mappingManager: MappingManager,
+    targetLanguage: string,
+    updateProgress: () => void,
+    languageId: string = 'plaintext',
+    classes: TokenClass[] = DEFAULT_TRANSLATED_CLASSES,
+    onVariants?: VariantHandler,
+    ranges?: TranslatedRange[]
+): Promise<string> {
+    mappingManager.clearMap();
+    const script = detectScript(text);
+    // Identifiers are case-folded by the target's script, as restoring looks them up; detecting it on the English
+    // text gets it wrong when the source has a few Greek or Japanese characters in it
+    const foldIds = isCasedScript(getDictionaryMetadata(targetLanguage)?.script ?? script);
+    const pieces = splitTranslatable(text, languageId, classes);
+    const tokens = pieces.map(piece => piece.text);
+    const inRange = tokensInRanges(tokens, ranges);
+    // Words of snake_case, kebab-case and SCREAMING_CASE identifiers are translated in their identifier's case
+    const conventions = identifierConventionsOf(pieces, isLexerSupported(languageId));
+    const translatedTokens: string[] = [];
+    const index = getDictionaryIndex(dictionary);
+    // Identifiers are numbered by how often the word already occurs in the translated text
+    const occurrences = new OccurrenceCounter();
+    // Mappings are anchored where their word lands in the translated text, which is how edits there move them
+    let translatedLength = 0;
+    const emit = (translatedToken: string) => {
+        translatedTokens.push(translatedToken);
+        translatedLength += translatedToken.length;
+        occurrences.add(translatedToken);
+    };
+    // Capitalization variants learned while translating, handed to onVariants
+    const variants: { [term: string]: string[] } = {};
+    let position = 0;
+
+    log(`Translating to '${targetLanguage}' (script: ${script}, language: ${languageId})`);
+    log(`Tokens: ${JSON.stringify(tokens)}`);
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const tokenStartPosition = position;
+        const translatedStart = translatedLength;
+
+        // Text outside a partial translation stays English and doesn't count towards the identifiers
+        if (!inRange[i]) {
+            translatedTokens.push(token);
+            translatedLength += token.length;
+            position += token.length;
+            updateProgress();
+            continue;
+        }
+
+        if (/[^\p{L}\p{M}\p{N}]+|\s+/u.test(token)) {
+            emit(token);
+            position += token.length;
+            log(`Kept '${token}' at ${tokenStartPosition} (punctuation)`);
+            updateProgress();
+            continue;
+        }
+
+        if (!pieces[i].translatable) {
+            emit(token);
+            position += token.length;
+            log(`Kept '${token}' at ${tokenStartPosition} (${pieces[i].kind})`);
+            updateProgress();
+            continue;
+        }
+
+        let translated = '';
+        const original = token;
+        let foundFull = false;
+        const convention = conventions[i];
+        const caseLike = (source: string, target: string, isPart = false) =>
+            convention ? applyConvention(target, convention, targetLanguage) : matchCase(source, target, targetLanguage, isPart);
+        const isTypeAnnotation = i > 0 && (tokens[i - 1].trim() === ':' || tokens[i - 1].trim() === '->');
+        const preferredPos: PartOfSpeech | undefined = pieces[i].kind === 'keyword' ? 'keyword' : isTypeAnnotation ? 'type' : undefined;
+
+        const dictTerm = findTargetTerm(index, original, preferredPos);
+        if (dictTerm) {
+            translated = caseLike(original, dictTerm);
+            foundFull = true;
+            const idBase = foldIds ? translated.toLowerCase() : translated;
+            const identifier = `${idBase}_${occurrences.count(idBase) + 1}${isTypeAnnotation ? '_type' : ''}`;
+            // The word as written, which a case-insensitive match may not be among the meanings
+            mappingManager.addTerm(original, translated, translatedStart, identifier);
+            log(`Translated '${original}' to '${translated}' at ${tokenStartPosition}, mapped as '${identifier}'`);
+        }
+
+        // Without a matching form `users` translates like user; the mapping keeps the word as written to give it back
+        const inflectedTerm = foundFull || pieces[i].kind === 'keyword' ? undefined : findInflectedTerm(index, original);
+        if (inflectedTerm) {
+            translated = caseLike(original, inflectedTerm);
+            foundFull = true;
+            const idBase = foldIds ? translated.toLowerCase() : translated;
+            const identifier = `${idBase}_${occurrences.count(idBase) + 1}${isTypeAnnotation ? '_type' : ''}`;
+            mappingManager.addTerm(original, translated, translatedStart, identifier);
+            log(`Translated inflected '${original}' to '${translated}' at ${tokenStartPosition}, mapped as '${identifier}'`);
+        }
+
+        if (!foundFull) {
+            const parts = splitCompound(original);
+            if (parts.length > 1) {
+                const translatedParts: string[] = [];
+                const partIds: string[] = [];
+                let partPosition = translatedStart;
+
+                for (const part of parts) {
+                    let partTarget = '';
+                    const dictTerm = index.targetsFor(part)[0];
+                    if (dictTerm) {
+                        const enTerms = dictionary[dictTerm];
+                        partTarget = caseLike(part, dictTerm, true);
+                        if (!enTerms.includes(part)) {
+                            enTerms.push(part);
+                            variants[dictTerm] = enTerms;
+                        }
+                    } else {
+                        const inflectedPart = findInflectedTerm(index, part);
+                        if (inflectedPart) partTarget = caseLike(part, inflectedPart, true);
+                    }
+                    if (!partTarget) partTarget = part;
+                    translatedParts.push(partTarget);
+                    const idBase = foldIds ? partTarget.toLowerCase() : partTarget;
+                    // Earlier parts of this compound are not emitted yet, so count them separately
+                    const earlierParts = translatedParts.slice(0, -1).join('').toLowerCase();
+                    const identifier = `${idBase}_${occurrences.count(idBase) + countMatches(earlierParts, idBase.toLowerCase()) + 1}`;
+                    mappingManager.addTerm(part, partTarget, partPosition, identifier);
+                    partIds.push(identifier);
+                    partPosition += partTarget.length;
+                }
+
+                translated = translatedParts.join('');
+                const compoundOriginal = original;
+                const compoundId = mappingManager.addCompound(compoundOriginal, translated, partIds, translatedStart);
+                log(`Mapped compound '${compoundId}' to '${compoundOriginal}' -> '${translated}' at ${tokenStartPosition}`);
+            } else {
+                translated = original;
+                const idBase = foldIds ? translated.toLowerCase() : translated;
+                const identifier = `${idBase}_${occurrences.count(idBase) + 1}`;
+                mappingManager.addTerm(original, translated, translatedStart, identifier);
+                log(`Untranslated '${original}' kept as '${translated}' at ${tokenStartPosition}, mapped as '${identifier}'`);
+            }
+        }
+
+        emit(translated);
+        position += token.length;
+        updateProgress();
+    }
+
+    if (onVariants && Object.keys(variants).length > 0) {
+        onVariants(variants);
+        log(`Updated dictionary with new variants`);
+    }
+
+    if (ranges) {
+        ranges.splice(0, ranges.length, ...mapRangesThroughTokens(ranges, tokens, translatedTokens));
+    }
+    return translatedTokens.join('');
+}
+
+// Given ranges, only the text inside them is restored, and they are moved to where they end up in the result
+export async function translateToOriginal(
+    text: string,
+    mappingManager: MappingManager,
+    dictionary: Dictionary,
+    updateProgress: () => void,
+    script: string = detectScript(text),
+    languageId: string = 'plaintext',
+    classes: TokenClass[] = DEFAULT_TRANSLATED_CLASSES,
+    ranges?: TranslatedRange[]
+): Promise<string> {
+    const allTerms = mappingManager.getAllTerms();
+    const allCompounds = mappingManager.getAllCompounds();
+    const findCompound = mappingManager.compoundFinder(script);
+    // Every class is split into words, since a translation may lex as another class than its source did (`const`
+    // becomes the identifier `constante`); outside `classes` a word only goes back through its own mapping
+    const pieces = splitTranslatable(text, languageId, ALL_TOKEN_CLASSES);
+    const lexed = isLexerSupported(languageId);
+    const tokens = pieces.map(piece => piece.text);
+    const inRange = tokensInRanges(tokens, ranges);
+    const translatedTokens: string[] = [];
+    let position = 0;
+    const isCased = isCasedScript(script);
+    const index = getDictionaryIndex(dictionary);
+    // Counts the translated text before each token, matching how the identifiers were numbered
+    const occurrences = new OccurrenceCounter();
+    let originalsByTranslated: Map<string, string> | undefined;
+
+    log(`Translating back: '${text}' with script '${script}'`);
+    log(`Compounds: ${JSON.stringify(allCompounds)}`);
+    log(`Terms: ${JSON.stringify(allTerms)}`);
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const tokenStartPosition = position;
+
+        if (!inRange[i]) {
+            translatedTokens.push(token);
+            position += token.length;
+            updateProgress();
+            continue;
+        }
+
+        if (/[^\p{L}\p{M}\p{N}]+|\s+/u.test(token)) {
+            translatedTokens.push(token);
+            occurrences.add(token);
+            position += token.length;
+            log(`Kept '${token}' at ${tokenStartPosition} (punctuation)`);
+            updateProgress();
+            continue;
+        }
+
+        if (!pieces[i].translatable) {
+            translatedTokens.push(token);
+            occurrences.add(token);
+            position += token.length;
+            log(`Kept '${token}' at ${tokenStartPosition} (${pieces[i].kind})`);
+            updateProgress();
+            continue;
+        }
+
+        let translated = '';
+        const targetTerm = token;
+        const mappedOnly = lexed && !classes.includes(pieces[i].kind as TokenClass);
+
+        // Check compound first
+        const compoundId = findCompound(targetTerm, tokenStartPosition);
+        if (compoundId && allCompounds[compoundId] && (!mappedOnly || allCompounds[compoundId].position === tokenStartPosition)) {
+            const compound = allCompounds[compoundId];
+            translated = isCased && compound.translated !== targetTerm ? matchCase(targetTerm, compound.original) : compound.original;
+            log(`Matched compound '${targetTerm}' to '${translated}' at ${tokenStartPosition} via compoundId '${compoundId}'`);
+            translatedTokens.push(translated);
+            occurrences.add(targetTerm);
+            position += targetTerm.length;
+            updateProgress();
+            continue;
+        }
+
+        // Determine if this is a type annotation
+        let isTypeAnnotation = false;
+        if (i > 0) {
+            const prevText = text.substring(0, tokenStartPosition).slice(-10);
+            isTypeAnnotation = /:\s*$|->\s*$/.test(prevText);
+            log(`Type annotation check for '${targetTerm}' at ${tokenStartPosition}: isTypeAnnotation=${isTypeAnnotation}, prevToken='${i > 0 ? tokens[i - 1] : ''}', prevText='${prevText}'`);
+        }
+
+        // Use original text for occurrence counting
+        const idBase = isCased ? targetTerm.toLowerCase() : targetTerm;
+        const occurrence = occurrences.count(idBase) + 1;
+        const typeIdentifier = `${idBase}_${occurrence}_type`;
+        const regularIdentifier = `${idBase}_${occurrence}`;
+        // The mapping of this occurrence; outside `classes` only while the word is still the translation it recorded
+        const mappedTerm = (identifier: string) => {
+            const translation = mappingManager.getTranslated(identifier);
+            return !mappedOnly || translation !== undefined && (isCased ? translation.toLowerCase() === idBase : translation === targetTerm)
+                ? allTerms[identifier]
+                : undefined;
+        };
+        let mappedOriginal = isTypeAnnotation ? mappedTerm(typeIdentifier) : mappedTerm(regularIdentifier);
+        // A word still cased the way it was translated goes back exactly as it was; a recased one passes its case on
+        const restoreCase = (identifier: string, original: string) =>
+            isCased && mappingManager.getTranslated(identifier) !== targetTerm ? matchCase(targetTerm, original) : original;
+
+        if (mappedOriginal) {
+            translated = restoreCase(isTypeAnnotation ? typeIdentifier : regularIdentifier, mappedOriginal);
+            log(`Matched term '${targetTerm}' to '${translated}' at ${tokenStartPosition} (identifier '${isTypeAnnotation ? typeIdentifier : regularIdentifier}')`);
+        } else {
+            // Secondary lookup: try the other identifier
+            mappedOriginal = isTypeAnnotation ? mappedTerm(regularIdentifier) : mappedTerm(typeIdentifier);
+            if (mappedOriginal) {
+                translated = restoreCase(isTypeAnnotation ? regularIdentifier : typeIdentifier, mappedOriginal);
+                log(`Secondary match '${targetTerm}' to '${translated}' at ${tokenStartPosition} (identifier '${isTypeAnnotation ? regularIdentifier : typeIdentifier}')`);
+            } else {
+                // Fallback: a meaning from the dictionary
+                const dictTerm = mappedOnly ? undefined : index.termsMatching(targetTerm, isCased)[0];
+                if (dictTerm) {
+                    const enTerms = dictionary[dictTerm];
+                    // Built on first use: the original of the first mapped term with this translation
+                    if (!originalsByTranslated) {
+                        originalsByTranslated = new Map();
+                        for (const [id, orig] of Object.entries(allTerms)) {
+                            const trans = mappingManager.getTranslated(id);
+                            const key = trans && (isCased ? trans.toLowerCase() : trans);
+                            if (key && !originalsByTranslated.has(key)) {
+                                originalsByTranslated.set(key, orig);
+                            }
+                        }
+                    }
+                    // An inflected original (`users`) is no stand-in for the term itself
+                    const firstOriginal = originalsByTranslated.get(isCased ? dictTerm.toLowerCase() : dictTerm);
+                    if (firstOriginal && enTerms.some(meaning => meaning.toLowerCase() === firstOriginal.toLowerCase())) {
+                        translated = isCased ? matchCase(targetTerm, firstOriginal) : firstOriginal;
+                        log(`Dictionary fallback using mapped term '${targetTerm}' to '${translated}' at ${tokenStartPosition}`);
+                    } else {
+                        translated = isCased ? matchCase(targetTerm, enTerms[0]) : enTerms[0];
+                        log(`Dictionary fallback default '${targetTerm}' to '${translated}' at ${tokenStartPosition}`);
+                    }
+                }
+                if (!translated) {
+                    translated = targetTerm;
+                    log(`No match for '${targetTerm}' at ${tokenStartPosition}, keeping as '${translated}'`);
+                }
+            }
+        }
+
+        translatedTokens.push(translated);
+        occurrences.add(targetTerm);
+        position += targetTerm.length;
+        updateProgress();
+    }
+
+    if (ranges) {
+        ranges.splice(0, ranges.length, ...mapRangesThroughTokens(ranges, tokens, translatedTokens));
+    }
+    return translatedTokens.join('');
+}
+
+// camelCase, PascalCase, acronyms and digits; snake_case and kebab-case words are separate tokens already
+export function splitCompound(term: string): string[] {
+    return splitIdentifier(term);
+}
+
+export function splitNonLatinCompound(term: string): string[] {
+    const parts: string[] = [];
+    let currentPart = '';
+    let lastScript = detectScript(term[0]);
+
+    for (let i = 0; i < term.length; i++) {
+        const char = term[i];
+        let currentScript = detectScript(char);
+
+        if (i === 0) {
+            currentPart = char;
+            continue;
+        }
+
+        // Kanji and kana belong to the same Japanese word (読み込む), so they stay in one run
+        if (isJapaneseRun(lastScript, currentScript)) {
+            currentScript = 'japanese';
+            lastScript = 'japanese';
+        }
+
+        if (currentScript !== lastScript) {
+            parts.push(...segmentRun(currentPart, lastScript));
+            currentPart = char;
+            lastScript = currentScript;
+        } else {
+            currentPart += char;
+        }
+    }
+
+    if (currentPart) {
+        parts.push(...segmentRun(currentPart, lastScript));
+    }
+
+    return parts.filter(Boolean);
+}
+
+function isJapaneseRun(lastScript: Script, currentScript: Script): boolean {
+    return (lastScript === 'japanese' && currentScript === 'logographic')
+        || (lastScript === 'logographic' && currentScript === 'japanese');
+}
+
+function segmentRun(run: string, script: Script): string[] {
+    switch (script) {
+        case 'logographic':
+            return segmentLogographic(run);
+        case 'devanagari':
+            return segmentDevanagari(run);
+        case 'cyrillic':
+            return segmentCyrillic(run);
+        case 'greek':
+            return segmentGreek(run);
+        case 'thai':
+            return segmentThai(run);
+        case 'arabic':
+        case 'hebrew':
+        case 'hangul':
+        case 'japanese':
+        case 'bengali':
+            return segmentByDictionary(run);
+        case 'latin':
+            return splitCompound(run);
+        default:
+            return [run];
+    }
+}
+
+function segmentLogographic(text: string): string[] 
+{
+    const segments: string[] = [];
+    let pos = 0;
+
+    while (pos < text.length) 
+        {
+        let longestMatch = '';
+        for (let len = Math.min(text.length - pos, 4); len > 0; len--) 
+            {
+            const substring = text.substring(pos, pos + len);
+            if (currentDictionary[substring]) 
+                {
+                longestMatch = substring;
+                break;
+            }
+        }
+        if (longestMatch) 
+            {
+            segments.push(longestMatch);
+            pos += longestMatch.length;
+        } else 
+        {
+            segments.push(text[pos]);
+            pos++;
+        }
+
+    }
+
+    return segments;
+}
+
+function segmentDevanagari(text: string): string[] 
+{
+    const segments: string[] = [];
+    let pos = 0;
+
+    while (pos < text.length) 
+        {
+        let longestMatch = '';
+        for (let len = text.length - pos; len > 0; len--) 
+            {
+            const substring = text.substring(pos, pos + len);
+            if (currentDictionary[substring]) {
+                longestMatch = substring;
+
+                break;
+
+            }
+        }
+        if (longestMatch) 
+            {
+            segments.push(longestMatch);
+            pos += longestMatch.length;
+        } else {
+            segments.push(text[pos]);
+            pos++;
+        }
+    }
+
+    return segments;
+}
+
+function segmentCyrillic(text: string): string[] 
+{
+    const segments: string[] = [];
+    let pos = 0;
+
+    while (pos < text.length) {
+        let longestMatch = '';
+        for (let len = text.length - pos; len > 0; len--) 
+            {
+            const substring = text.substring(pos, pos + len);
+            if (currentDictionary[substring]) 
+                {
+                longestMatch = substring;
+                break;
+            }
+        }
+        if (longestMatch) 
+            {
+            segments.push(longestMatch);
+            pos += longestMatch.length;
+        } else {
+            segments.push(text[pos]);
+            pos++;
+        }
+
+    }
+
+    return segments;
+}
+
+// Longest dictionary match from the left; unknown characters become single-character segments
+function segmentByDictionary(text: string): string[] {
+    const segments: string[] = [];
+    let pos = 0;
+
+    while (pos < text.length) {
+        let longestMatch = '';
+        for (let len = text.length - pos; len > 0; len--) {
+            const substring = text.substring(pos, pos + len);
+            if (currentDictionary[substring]) {
+                longestMatch = substring;
+                break;
+            }
+        }
+        if (longestMatch) {
+            segments.push(longestMatch);
+            pos += longestMatch.length;
+        } else {
+            segments.push(text[pos]);
+            pos++;
+        }
+    }
+
+    return segments;
+}
+
+// Greek has capitals, so camelCase Greek identifiers split like Latin ones
+function segmentGreek(text: string): string[] {
+    if (!/.\p{Lu}/u.test(text)) {
+        return segmentByDictionary(text);
+    }
+    return text.match(/\p{Lu}[\p{Ll}\p{M}]*|[\p{Ll}\p{M}]+/gu) || [text];
+}
+
+/**
+ * Thai is written without spaces, so words are found by dictionary maximal matching:
+ * the split with the fewest unknown characters wins, then the one with the fewest words.
+ */
+function segmentThai(text: string): string[] {
+    const maxWordLength = 20;
+    // best[i] = cheapest segmentation of text[0, i)
+    const best: { unknown: number; words: number; start: number }[] = [{ unknown: 0, words: 0, start: -1 }];
+
+    for (let end = 1; end <= text.length; end++) {
+        let candidate = { unknown: best[end - 1].unknown + 1, words: best[end - 1].words + 1, start: end - 1 };
+        for (let start = Math.max(0, end - maxWordLength); start < end; start++) {
+            if (!currentDictionary[text.substring(start, end)]) continue;
+            const option = { unknown: best[start].unknown, words: best[start].words + 1, start };
+            if (option.unknown < candidate.unknown || (option.unknown === candidate.unknown && option.words < candidate.words)) {
+                candidate = option;
+            }
+        }
+        best[end] = candidate;
+    }
+
+    const segments: string[] = [];
+    for (let end = text.length; end > 0; end = best[end].start) {
+        segments.unshift(text.substring(best[end].start, end));
+    }
+
+    // Glue runs of unknown single characters back together so they read as one untranslated word
+    const merged: string[] = [];
+    for (const segment of segments) {
+        const previous = merged[merged.length - 1];
+        if (previous !== undefined && !currentDictionary[previous] && !currentDictionary[segment]) {
+            merged[merged.length - 1] = previous + segment;
+        } else {
+            merged.push(segment);
+        }
+    }
+    return merged;
+}
@@ -1,36 +1,50 @@
 import * as vscode from 'vscode';
-import { toggleTranslation, getOriginalTerms, translateToOriginal, detectScript, splitNonLatinCompound } from './translation';
-import { MappingManager } from './mappings';
+import { toggleTranslation, getIdentifierConventions, getOriginalTerms, translateToOriginal, detectScript, splitNonLatinCompound, TranslationMode, getModeClasses, getTokenizerLanguage, setCurrentDictionary, Dictionary, isRtlIsolationEnabled, isolateRightToLeft, stripBidiIsolation, loadDictionary, isCasedScript, matchCase } from './translation';
+import { isLexerSupported, isInsideComment } from './lexer';
+import { MappingManager, findOccurrenceIdentifier } from './mappings';
+import { DocumentStateRegistry, DocumentTranslationState } from './documentState';
 import { LanguageSelector } from './ui';
 import { log } from './utils';
 import { registerHoverProvider } from './hoverProvider';
-import * as fs from 'fs';
-import * as path from 'path';
+import { registerTranslatedView } from './translatedView';
+import { isSidecarEnabled, writeSidecar, deleteSidecar, loadSidecar, verifyRestoredSource } from './sidecar';
+import { pickDictionaryLayer, updateDictionaryLayer, watchWorkspaceDictionaries, WritableLayer } from './dictionaryLayers';
+import { registerMigrateDictionaryCommand } from './migrateDictionary';
+import { countMatches, getDictionaryIndex } from './indexes';
+import { setIdentifierConventions, splitIdentifier } from './identifiers';
+import { registerRoundTripCommand } from './roundTrip';
+import { TranslationDiagnostics } from './diagnostics';
+import { registerInlayHints, refreshInlayHints } from './inlayHints';
+import { registerDictionaryEditor } from './dictionaryEditor';
+import { registerGlossaryCommands } from './glossary';
+import { registerBatchTranslation } from './batchTranslation';
+import { ACCEPT_COMPLETION_COMMAND, registerCompletionProvider, takeCompletionInsert } from './completion';
+import { TranslatedRange, isInRanges, shiftRanges, snapRanges } from './translatedRanges';
+import { ADD_WORD_COMMAND, USE_MEANING_COMMAND, registerCodeActions, askEnglishMeaning, getDocumentScript } from './codeActions';
 
 
 // GLOBAL VARS 
-let isTargetLanguage = false;
-let mappingManager: MappingManager;
+let documentStates: DocumentStateRegistry;
 let extensionContext: vscode.ExtensionContext;
 let isProcessingEdit = false;
-let lastDocumentText: string | null = null;
 let preDeletionWindow: string = '';
 let translatorStatusBarItem: vscode.StatusBarItem; // Already in your globals, keeping it
 
 let lastCursorOffset: number | null = null;
 let languageSelector: LanguageSelector;
+let translationDiagnostics: TranslationDiagnostics;
 let insertionBuffer: string = '';
 let bufferStartOffset: number | null = null;
 let deletionContext: string = '';
 let deletedTextBuffer: string = '';
-let lastDeletedIdentifier: string | null = null;
 
 //Activate the extension 
 export function activate(context: vscode.ExtensionContext) {
     extensionContext = context;
     log('Activating VSCode Translator extension');
 
-    mappingManager = new MappingManager(context);
+    documentStates = new DocumentStateRegistry(context);
+    setIdentifierConventions(getIdentifierConventions());
     languageSelector = new LanguageSelector(context);
     languageSelector.registerCommand();
 
@@ -40,9 +54,41 @@ export function activate(context: vscode.ExtensionContext) {
     translatorStatusBarItem.show();
     context.subscriptions.push(translatorStatusBarItem);
 
-    context.workspaceState.update('isTargetLanguage', isTargetLanguage);
+    // Status bar and active dictionary always follow the focused document
+    const syncActiveDocument = (editor: vscode.TextEditor | undefined) => {
+        const docState = editor ? documentStates.get(editor.document.uri) : undefined;
+        if (!docState || !docState.isTargetLanguage) {
+            translatorStatusBarItem.text = 'Translator Disabled';
+            translatorStatusBarItem.tooltip = undefined;
+            setCurrentDictionary({});
+            return;
+        }
+        const coverage = translationDiagnostics.getCoverage(editor!.document.uri);
+        const ranges = docState.translatedRanges;
+        const scope = ranges ? 'partial, ' : docState.translationMode === 'comments' ? 'comments, ' : '';
+        translatorStatusBarItem.text = `Translator Enabled (${scope}${docState.language})` + (coverage !== undefined ? ` ${coverage}%` : '');
+        translatorStatusBarItem.tooltip = ranges ? `${ranges.length} translated range(s); the rest of the file stays English` : undefined;
+        setCurrentDictionary(docState.dictionary);
+    };
+
+    // Untranslated and ambiguous words of translated documents, and the coverage shown above
+    translationDiagnostics = new TranslationDiagnostics(() => {
+        syncActiveDocument(vscode.window.activeTextEditor);
+        refreshInlayHints();
+    });
+    context.subscriptions.push(translationDiagnostics);
+    // Documents left translated by an earlier session are analysed when they are first focused
+    const focusDocument = (editor: vscode.TextEditor | undefined) => {
+        const docState = editor ? documentStates.get(editor.document.uri) : undefined;
+        if (editor && docState?.isTargetLanguage && translationDiagnostics.getCoverage(editor.document.uri) === undefined) {
+            translationDiagnostics.update(editor.document, docState);
+        }
+        syncActiveDocument(editor);
+    };
+    focusDocument(vscode.window.activeTextEditor);
 
-    let toggleDisposable = vscode.commands.registerCommand('vscode-translator.toggleTranslation', async () => {
+    // With selectionOnly, translating covers just the selections; going back to English always restores everything translated
+    const runToggle = async (mode: TranslationMode, selectionOnly = false) => {
         const editor = vscode.window.activeTextEditor;
         if (!editor) 
             {
@@ -50,124 +96,182 @@ export function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        isProcessingEdit = true;
-        const text = editor.document.getText();
-        isTargetLanguage = !isTargetLanguage;
-        context.workspaceState.update('isTargetLanguage', isTargetLanguage);
+        const docState = documentStates.get(editor.document.uri);
+        const isTargetLanguage = !docState.isTargetLanguage;
         const targetLanguage = isTargetLanguage ? languageSelector.getCurrentLanguage() : 'en';
+        if (isTargetLanguage && targetLanguage === 'en') {
+            vscode.window.showErrorMessage('Please select a target language first.');
+            return;
+        }
 
-        // Update translation status on status bar
-        translatorStatusBarItem.text = isTargetLanguage ? 'Translator Enabled' : 'Translator Disabled';
-        log(`Toggling to ${targetLanguage} with text: '${text}'`);
+        // Undoing the toggle returns the buffer to this text, and with it this state
+        docState.takeSnapshot(editor.document);
 
-        if (isTargetLanguage) 
-            {
-            const dictPath = path.join(__dirname, 'languages', 'languages', `${targetLanguage}.json`);
-            const currentDictionary: { [key: string]: string[] } = fs.existsSync(dictPath) ? JSON.parse(fs.readFileSync(dictPath, 'utf8')) : {};
-            require('./translation').currentDictionary = currentDictionary;
-            let updated = false;
-            const script = detectScript(text);
-            const tokens = text.match(require('./translation').getTokenRegex(script)) || [];
-            for (const token of tokens) 
-                {
-                if (!token.trim() || /[^\p{L}\p{M}\p{N}]+|\s+/u.test(token)) continue;
-                const lowerToken = token.toLowerCase();
-                for (const [targetTerm, enTerms] of Object.entries(currentDictionary)) 
+        if (isTargetLanguage && mode === 'comments' && !isLexerSupported(getTokenizerLanguage(editor.document))) {
+            vscode.window.showErrorMessage(`Comment-only translation is not available for '${editor.document.languageId}' documents.`);
+            return;
+        }
+        // Going back to English always uses the mode the document was translated with
+        const classes = getModeClasses(isTargetLanguage ? mode : docState.translationMode);
+
+        const text = editor.document.getText();
+        let ranges: TranslatedRange[] | undefined;
+        if (isTargetLanguage && selectionOnly) {
+            const selected = editor.selections
+                .filter(selection => !selection.isEmpty)
+                .map(selection => ({ start: editor.document.offsetAt(selection.start), end: editor.document.offsetAt(selection.end) }));
+            ranges = snapRanges(text, selected, getTokenizerLanguage(editor.document), getModeClasses(mode));
+            if (ranges.length === 0) {
+                vscode.window.showErrorMessage('Select the code or comments to translate first.');
+                return;
+            }
+        }
+
+        isProcessingEdit = true;
+        docState.isTargetLanguage = isTargetLanguage;
+        log(`Toggling ${docState.uri} to ${targetLanguage} with text: '${text}'`);
+        let applied = false;
+        // Translating rebuilds the map before the edit; restoring leaves it as it was, ready for another try
+        const revertToggle = () => {
+            docState.isTargetLanguage = !isTargetLanguage;
+            if (isTargetLanguage) {
+                docState.mappingManager.clearMap();
+            }
+        };
+
+        try {
+            // Show progress bar for translation
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Translating to ${targetLanguage}`,
+                cancellable: false
+            }, async (progress) => {
+                // show progress when translating..
+                const totalSteps = Math.min(Math.max(text.length / 1000, 1), 100); // 1 step per 1000 chars, capped at 100
+                const increment = 100 / totalSteps;
+                let currentStep = 0;
+
+                // progress updates
+                const updateProgress = () => {
+                    currentStep += 1;
+                    progress.report({ increment, message: `${Math.round(currentStep * increment)}%` });
+                };
+
+                // processing translation progress bar
+                for (let i = 0; i < totalSteps; i++) 
                     {
-                    if (enTerms.some((en: string) => en.toLowerCase() === lowerToken) && !enTerms.includes(token)) 
-                        {
-                        enTerms.push(token);
-                        updated = true;
-                        log(`Auto-added capitalization variant '${token}' to '${targetTerm}' in ${targetLanguage}.json`);
+                    // delay for visualizing progress
+                    await new Promise(resolve => setTimeout(resolve, 50));
+                    updateProgress();
+                }
 
-                        const textBefore = text.substring(0, text.indexOf(token));
-                        const occurrencesBefore = (textBefore.match(new RegExp(targetTerm, 'g')) || []).length + 1;
-                        const identifier = `${targetTerm}_${occurrencesBefore}`;
+                // TRANSLATE THE DOCUMENT
+                applied = await toggleTranslation(text, targetLanguage, editor, docState, context, classes, ranges);
 
-                        context.workspaceState.update(`original_${identifier}`, token);
-                        context.workspaceState.update(`translated_${identifier}`, targetTerm);
-                        context.workspaceState.update(`position_${identifier}`, text.indexOf(token));
-                        context.workspaceState.update(`compoundIds_${identifier}`, []);
+                // progress hits 100%
+                progress.report({ increment: 100 - (currentStep * increment), message: '100% - Complete!' });
+                await new Promise(resolve => setTimeout(resolve, 500)); // Brief pause to show 100%
+            });
 
-                        log(`Added '${identifier}' -> '${token}' to mappings for ${targetLanguage}`);
-                    }
-                }
+            if (!applied) {
+                // Cancelled by the round-trip check, or the document changed before the edit; the buffer is as it was
+                revertToggle();
+                return;
             }
-            if (updated) 
-                {
-                fs.writeFileSync(dictPath, JSON.stringify(currentDictionary, null, 2), 'utf8');
-                log(`Refreshed dictionary with new capitalization variants for ${targetLanguage}`);
+            if (isTargetLanguage) {
+                docState.translationMode = mode;
             }
-        }
 
-        // Show progress bar for translation
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: `Translating to ${targetLanguage}`,
-            cancellable: false
-        }, async (progress) => {
-            // show progress when translating..
-            const totalSteps = Math.min(Math.max(text.length / 1000, 1), 100); // 1 step per 1000 chars, capped at 100
-            const increment = 100 / totalSteps;
-            let currentStep = 0;
-
-            // progress updates
-            const updateProgress = () => {
-                currentStep += 1;
-                progress.report({ increment, message: `${Math.round(currentStep * increment)}%` });
-            };
-
-            // processing translation progress bar
-            for (let i = 0; i < totalSteps; i++) 
-                {
-                // delay for visualizing progress
-                await new Promise(resolve => setTimeout(resolve, 50));
-                updateProgress();
+            // Show completion message with green checkmark
+            vscode.window.showInformationMessage(`Translation to ${targetLanguage} complete!`, { detail: '✔ Done' });
+
+            docState.lastDocumentText = editor.document.getText();
+            if (isTargetLanguage) {
+                translationDiagnostics.update(editor.document, docState);
+            } else {
+                translationDiagnostics.clear(editor.document.uri);
+            }
+            if (isSidecarEnabled()) {
+                if (isTargetLanguage) {
+                    writeSidecar(editor.document, docState);
+                } else {
+                    verifyRestoredSource(editor.document, text, docState.lastDocumentText);
+                    deleteSidecar(editor.document);
+                }
             }
+            docState.takeSnapshot(editor.document);
+        } catch (error) {
+            log(`Error toggling ${docState.uri} to ${targetLanguage}: ${error}`);
+            // A failure after the edit leaves the document translated as it is; before it, nothing changed
+            if (!applied) {
+                revertToggle();
+            }
+            vscode.window.showErrorMessage(`Could not toggle the translation to ${targetLanguage}: ${error}`);
+        } finally {
+            syncActiveDocument(vscode.window.activeTextEditor);
+            isProcessingEdit = false;
+        }
+    };
 
-            // TRANSLATE THE DOCUMENT
-            await toggleTranslation(text, targetLanguage, editor, mappingManager, context);
+    const toggleDisposable = vscode.commands.registerCommand('vscode-translator.toggleTranslation', () => runToggle('full'));
+    const toggleCommentsDisposable = vscode.commands.registerCommand('vscode-translator.toggleCommentTranslation', () => runToggle('comments'));
+    const toggleSelectionDisposable = vscode.commands.registerCommand('vscode-translator.toggleSelectionTranslation', () => runToggle('full', true));
 
-            // progress hits 100%
-            progress.report({ increment: 100 - (currentStep * increment), message: '100% - Complete!' });
-            await new Promise(resolve => setTimeout(resolve, 500)); // Brief pause to show 100%
-        });
+    const toggleRtlDisposable = vscode.commands.registerCommand('vscode-translator.toggleRTL', async () => {
+        const enabled = !isRtlIsolationEnabled();
+        await vscode.workspace.getConfiguration('vscode-translator').update('rtlIsolation', enabled, vscode.ConfigurationTarget.Global);
 
-        // Show completion message with green checkmark
-        vscode.window.showInformationMessage(`Translation to ${targetLanguage} complete!`, { detail: '✔ Done' });
-
-        lastDocumentText = editor.document.getText();
-        isProcessingEdit = false;
+        // Re-render the focused translated document right away instead of waiting for the next toggle
+        const editor = vscode.window.activeTextEditor;
+        const docState = editor ? documentStates.get(editor.document.uri) : undefined;
+        // Partial translations are never isolated, the marks would move their ranges
+        if (editor && docState && docState.isTargetLanguage && docState.translatedRanges === null) {
+            const text = editor.document.getText();
+            const newText = enabled ? isolateRightToLeft(text) : stripBidiIsolation(text);
+            if (newText !== text) {
+                isProcessingEdit = true;
+                await editor.edit((editBuilder) => {
+                    editBuilder.replace(new vscode.Range(editor.document.positionAt(0), editor.document.positionAt(text.length)), newText);
+                });
+                docState.lastDocumentText = editor.document.getText();
+                isProcessingEdit = false;
+            }
+            docState.rtlIsolated = enabled && newText !== stripBidiIsolation(newText);
+            translationDiagnostics.update(editor.document, docState);
+        }
+        vscode.window.showInformationMessage(`RTL isolation ${enabled ? 'enabled' : 'disabled'}`);
     });
 
-    const refreshDictionaryAndMappings = async (targetLanguage: string, addedTerm?: { term: string, meaning: string }, removedTerm?: string, removedMeaning?: string) => {
-        const dictPath = path.join(__dirname, 'languages', 'languages', `${targetLanguage}.json`);
-        const newDict: { [key: string]: string[] } = fs.existsSync(dictPath) ? JSON.parse(fs.readFileSync(dictPath, 'utf8')) : {};
-        require('./translation').currentDictionary = newDict;
+    const refreshDictionaryAndMappings = async (targetLanguage: string, layer: WritableLayer, addedTerm?: { term: string, meaning: string }, removedTerm?: string, removedMeaning?: string) => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) return;
+        const newDict: Dictionary = loadDictionary(context, targetLanguage, undefined, editor.document.uri);
+        const docState = documentStates.get(editor.document.uri);
+        const mappingManager = docState.mappingManager;
+        if (docState.isTargetLanguage && docState.language === targetLanguage) {
+            docState.dictionary = newDict;
+            setCurrentDictionary(newDict);
+        }
         log(`Refreshed dictionary for ${targetLanguage} in memory`);
 
         const allTerms = mappingManager.getAllTerms();
-        const editor = vscode.window.activeTextEditor;
 
         if (addedTerm) 
             {
             const { term, meaning } = addedTerm;
             if (!newDict[term]) newDict[term] = [];
             if (!newDict[term].includes(meaning)) newDict[term].push(meaning);
-            fs.writeFileSync(dictPath, JSON.stringify(newDict, null, 2), 'utf8');
-            const text = editor ? editor.document.getText() : '';
-            const offset = editor ? editor.document.offsetAt(editor.selection.start) : 0;
+            updateDictionaryLayer(context, targetLanguage, layer, { [term]: newDict[term] }, editor.document.uri);
+            const text = editor.document.getText();
+            const offset = editor.document.offsetAt(editor.selection.start);
             const textBefore = text.substring(0, offset);
             const occurrencesBefore = (textBefore.match(new RegExp(term, 'g')) || []).length + 1;
             const identifier = `${term}_${occurrencesBefore}`;
-            context.workspaceState.update(`original_${identifier}`, meaning);
-            context.workspaceState.update(`translated_${identifier}`, term);
-            context.workspaceState.update(`position_${identifier}`, offset);
-            context.workspaceState.update(`compoundIds_${identifier}`, []);
+            mappingManager.addTerm(meaning, term, offset, identifier);
             log(`Added '${identifier}' -> '${meaning}' to mappings for ${targetLanguage}`);
         }
 
-        if (removedTerm && removedMeaning && editor)
+        if (removedTerm && removedMeaning)
              {
             const text = editor.document.getText();
             const targetTerm = removedTerm;
@@ -181,7 +285,7 @@ export function activate(context: vscode.ExtensionContext) {
             if (termsToUpdate.length > 0 && defaultMeaning) 
                 {
                 for (const key of termsToUpdate) {
-                    context.workspaceState.update(`original_${key}`, defaultMeaning);
+                    mappingManager.setOriginal(key, defaultMeaning);
                     log(`Updated '${key}' from '${meaningToRemove}' to default '${defaultMeaning}'`);
                 }
 
@@ -190,14 +294,14 @@ export function activate(context: vscode.ExtensionContext) {
                     termsToUpdate.forEach((key) => 
                         {
                         const position = mappingManager.getPosition(key);
-                        const translatedTerm = context.workspaceState.get(`translated_${key}`) as string;
+                        const translatedTerm = mappingManager.getTranslated(key) || targetTerm;
                         const startPos = editor.document.positionAt(position);
                         const endPos = editor.document.positionAt(position + translatedTerm.length);
                         const range = new vscode.Range(startPos, endPos);
                         editBuilder.replace(range, defaultMeaning);
                     });
                 });
-                lastDocumentText = editor.document.getText();
+                docState.lastDocumentText = editor.document.getText();
                 log(`Updated specific instances of '${targetTerm}' mapped to '${meaningToRemove}' to '${defaultMeaning}'`);
             } else if (termsToUpdate.length > 0 && !defaultMeaning) 
                 {
@@ -211,6 +315,9 @@ export function activate(context: vscode.ExtensionContext) {
             }
 
         }
+        if (docState.isTargetLanguage) {
+            translationDiagnostics.update(editor.document, docState);
+        }
     };
 
     let addToDictDisposable = vscode.commands.registerCommand('vscode-translator.addToDictionary', async () => {
@@ -243,8 +350,11 @@ export function activate(context: vscode.ExtensionContext) {
 
         if (!englishMeaning) return;
 
-        await refreshDictionaryAndMappings(targetLanguage, { term: selectedText, meaning: englishMeaning });
-        vscode.window.showInformationMessage(`Added "${selectedText}" -> "${englishMeaning}" to ${targetLanguage} dictionary!`);
+        const layer = await pickDictionaryLayer(targetLanguage, `get "${selectedText}"`, editor.document.uri);
+        if (!layer) return;
+
+        await refreshDictionaryAndMappings(targetLanguage, layer, { term: selectedText, meaning: englishMeaning });
+        vscode.window.showInformationMessage(`Added "${selectedText}" -> "${englishMeaning}" to the ${layer} ${targetLanguage} dictionary!`);
     });
 
     let removeFromDictDisposable = vscode.commands.registerCommand('vscode-translator.removeFromDictionary', async () => {
@@ -269,14 +379,7 @@ export function activate(context: vscode.ExtensionContext) {
             return;
         }
 
-        const dictPath = path.join(__dirname, 'languages', 'languages', `${targetLanguage}.json`);
-        if (!fs.existsSync(dictPath)) 
-            {
-            vscode.window.showErrorMessage(`No dictionary found for ${targetLanguage}.`);
-            return;
-        }
-
-        const dict: { [key: string]: string[] } = JSON.parse(fs.readFileSync(dictPath, 'utf8'));
+        const dict: Dictionary = loadDictionary(context, targetLanguage, undefined, editor.document.uri);
         if (!dict[selectedText] || dict[selectedText].length === 0) 
             {
             vscode.window.showErrorMessage(`"${selectedText}" not found in ${targetLanguage} dictionary.`);
@@ -290,11 +393,91 @@ export function activate(context: vscode.ExtensionContext) {
 
         if (!meaningToRemove) return;
 
-        dict[selectedText] = dict[selectedText].filter(m => m !== meaningToRemove);
-        if (dict[selectedText].length === 0) delete dict[selectedText];
-        fs.writeFileSync(dictPath, JSON.stringify(dict, null, 2), 'utf8');
-        await refreshDictionaryAndMappings(targetLanguage, undefined, selectedText, meaningToRemove);
-        vscode.window.showInformationMessage(`Removed "${meaningToRemove}" from "${selectedText}" in ${targetLanguage} dictionary!`);
+        const layer = await pickDictionaryLayer(targetLanguage, `drop "${meaningToRemove}" for "${selectedText}"`, editor.document.uri);
+        if (!layer) return;
+
+        // An empty list in the chosen layer hides the term from the layers below it
+        const remaining = dict[selectedText].filter(m => m !== meaningToRemove);
+        if (!updateDictionaryLayer(context, targetLanguage, layer, { [selectedText]: remaining }, editor.document.uri)) return;
+        await refreshDictionaryAndMappings(targetLanguage, layer, undefined, selectedText, meaningToRemove);
+        if (loadDictionary(context, targetLanguage, undefined, editor.document.uri)[selectedText]?.includes(meaningToRemove)) {
+            vscode.window.showWarningMessage(`"${meaningToRemove}" is still defined for "${selectedText}" by the workspace ${targetLanguage} dictionary.`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Removed "${meaningToRemove}" from "${selectedText}" in the ${layer} ${targetLanguage} dictionary!`);
+    });
+
+    // Quick fix on an untranslated word: the English original it was mapped from is the first suggestion
+    let addWordDisposable = vscode.commands.registerCommand(ADD_WORD_COMMAND, async (uri: vscode.Uri, range: vscode.Range) => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.toString() !== uri.toString()) return;
+        const docState = documentStates.get(uri);
+        const targetLanguage = docState.language;
+        const word = editor.document.getText(range);
+        const identifier = findOccurrenceIdentifier(docState.mappingManager, editor.document.getText(), editor.document.offsetAt(range.start), word, getDocumentScript(targetLanguage, word), docState.translatedRanges);
+        const original = docState.mappingManager.getAllTerms()[identifier];
+
+        const englishMeaning = await askEnglishMeaning(word, targetLanguage, original ? [original, original.toLowerCase()] : []);
+        if (!englishMeaning) return;
+
+        const layer = await pickDictionaryLayer(targetLanguage, `get "${word}"`, uri);
+        if (!layer) return;
+
+        editor.selection = new vscode.Selection(range.start, range.end);
+        await refreshDictionaryAndMappings(targetLanguage, layer, { term: word, meaning: englishMeaning });
+        if (original) {
+            docState.mappingManager.setOriginal(identifier, englishMeaning);
+        }
+        vscode.window.showInformationMessage(`Added "${word}" -> "${englishMeaning}" to the ${layer} ${targetLanguage} dictionary!`);
+    });
+
+    // Quick fix on a translated word: this occurrence restores to the chosen meaning, which also becomes the term's first meaning
+    let useMeaningDisposable = vscode.commands.registerCommand(USE_MEANING_COMMAND, async (uri: vscode.Uri, offset: number, word: string, meaning: string) => {
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        const docState = documentStates.get(uri);
+        if (!document || !docState.isTargetLanguage) return;
+        const targetLanguage = docState.language;
+        const script = getDocumentScript(targetLanguage, word);
+        const mappingManager = docState.mappingManager;
+        // The quick fix may predate a dictionary reload that dropped the word
+        const dictTerm = getDictionaryIndex(docState.dictionary).termsMatching(word, isCasedScript(script))[0];
+        if (dictTerm === undefined) {
+            vscode.window.showWarningMessage(`"${word}" is no longer in the ${targetLanguage} dictionary.`);
+            return;
+        }
+
+        const identifier = findOccurrenceIdentifier(mappingManager, document.getText(), offset, word, script, docState.translatedRanges);
+        if (mappingManager.getAllTerms()[identifier] !== undefined) {
+            mappingManager.setOriginal(identifier, meaning);
+        } else {
+            mappingManager.addTerm(meaning, word, offset, identifier);
+        }
+
+        const meanings = [meaning, ...docState.dictionary[dictTerm].filter(m => m !== meaning)];
+        if (!updateDictionaryLayer(context, targetLanguage, 'user', { [dictTerm]: meanings }, uri)) return;
+        docState.dictionary = loadDictionary(context, targetLanguage, document.languageId, uri);
+        translationDiagnostics.update(document, docState);
+        log(`'${identifier}' now restores to '${meaning}'; '${dictTerm}' lists it first in the user ${targetLanguage} dictionary`);
+        vscode.window.showInformationMessage(`"${word}" now means "${meaning}" here and is listed first for "${dictTerm}" in your ${targetLanguage} dictionary.`);
+    });
+
+    // An accepted suggestion already carries its meaning, so it is mapped here without asking
+    let acceptCompletionDisposable = vscode.commands.registerCommand(ACCEPT_COMPLETION_COMMAND, async (uri: vscode.Uri, offset: number, term: string, meaning: string) => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.toString() !== uri.toString()) return;
+        const docState = documentStates.get(uri);
+        const currentText = editor.document.getText();
+        // Numbered and case-folded the way restoring looks it up, so the chosen meaning comes back, in the case it was typed in
+        const occurrenceId = findOccurrenceIdentifier(docState.mappingManager, currentText, offset, term, getDocumentScript(docState.language, currentText), docState.translatedRanges);
+        const identifier = docState.mappingManager.addTerm(matchCase(term, meaning), term, offset, occurrenceId);
+        log(`Mapped completion '${term}' to '${meaning}' as '${identifier}'`);
+
+        // Typed into a camelCase word: link it with the parts around it like typing would
+        const wordRange = editor.document.getWordRangeAtPosition(editor.document.positionAt(offset), /[\p{L}\p{M}\p{N}]+/u);
+        if (wordRange) {
+            await handleCompoundDetection(editor.document.getText(wordRange), editor.document.offsetAt(wordRange.start), offset + term.length, currentText, docState.language, detectScript(currentText), docState.dictionary, docState.mappingManager);
+        }
+        docState.lastDocumentText = currentText;
     });
 
     context.subscriptions.push(vscode.window.onDidChangeTextEditorSelection((e) => {
@@ -324,8 +507,7 @@ export function activate(context: vscode.ExtensionContext) {
     ) {
         const allTerms = mappingManager.getAllTerms();
         const allCompounds = mappingManager.getAllCompounds();
-        const dictPath = path.join(__dirname, 'languages', 'languages', `${currentLanguage}.json`);
-        const dict = JSON.parse(fs.readFileSync(dictPath, 'utf8'));
+        const dict = loadDictionary(context, currentLanguage);
     
         let compoundParts: string[] = [];
         let compoundTranslated = '';
@@ -335,8 +517,8 @@ export function activate(context: vscode.ExtensionContext) {
         log(`Processing word '${currentWord}' at offset ${wordStartOffset}, cursorOffset=${cursorOffset}, script=${script}`);
     
         let parts: string[];
-        if (script === 'latin' && /[\p{Lu}]/u.test(currentWord)) {
-            parts = currentWord.match(/[\p{Lu}][\p{Ll}]*|[\p{Ll}]+/gu) || [currentWord];
+        if (script === 'latin' && /[\p{Lu}\p{N}]/u.test(currentWord)) {
+            parts = splitIdentifier(currentWord);
             log(`Latin split '${currentWord}' into parts: ${JSON.stringify(parts)}`);
         } else if (script === 'logographic' || script === 'devanagari' || script === 'cyrillic') {
             parts = splitNonLatinCompound(currentWord);
@@ -397,7 +579,7 @@ export function activate(context: vscode.ExtensionContext) {
             log(`Added/Updated compound: '${compoundTranslated}' -> '${compoundOriginal}' (${compoundId}) with parts ${JSON.stringify(compoundParts)}`);
             if (!dict[compoundTranslated]) {
                 dict[compoundTranslated] = [compoundOriginal];
-                fs.writeFileSync(dictPath, JSON.stringify(dict, null, 2), 'utf8');
+                updateDictionaryLayer(context, currentLanguage, 'user', { [compoundTranslated]: dict[compoundTranslated] });
                 log(`Added compound '${compoundTranslated}' -> '${compoundOriginal}' to dictionary`);
             }
         } else {
@@ -421,9 +603,8 @@ async function processPart(
     compoundOriginal: string,
     allTerms: { [key: string]: string }
 ): Promise<string> {
-    const textBefore = currentText.substring(0, substringStartOffset);
-    const occurrencesBefore = (textBefore.match(new RegExp(substring, 'g')) || []).length + 1;
-    const identifier = `${substring}_${occurrencesBefore}`;
+    const textBefore = currentText.substring(0, substringStartOffset).toLowerCase();
+    const identifier = `${substring.toLowerCase()}_${countMatches(textBefore, substring.toLowerCase()) + 1}`;
     const isAlreadyMapped = allTerms[identifier] && mappingManager.getPosition(identifier) === substringStartOffset;
 
     if (!isAlreadyMapped) {
@@ -446,14 +627,14 @@ async function processPart(
         }
 
         if (selected) {
-            mappingManager.addInsertionPictographic(selected, substring, substringStartOffset, currentText);
-            log(`Mapped '${substring}' to '${selected}' with identifier '${identifier}'`);
-            compoundParts.push(identifier);
+            const insertedId = mappingManager.addInsertionPictographic(selected, substring, substringStartOffset, currentText);
+            log(`Mapped '${substring}' to '${selected}' with identifier '${insertedId}'`);
+            compoundParts.push(insertedId);
             return selected;
         } else {
-            mappingManager.addInsertionPictographic(substring, substring, substringStartOffset, currentText);
-            log(`Mapped untranslated '${substring}' to itself with identifier '${identifier}'`);
-            compoundParts.push(identifier);
+            const insertedId = mappingManager.addInsertionPictographic(substring, substring, substringStartOffset, currentText);
+            log(`Mapped untranslated '${substring}' to itself with identifier '${insertedId}'`);
+            compoundParts.push(insertedId);
             return substring;
         }
     } else {
@@ -467,26 +648,68 @@ async function processPart(
     
 
 
+// Undo and redo put back the language, mapping and ranges recorded for the text they return to
+context.subscriptions.push(vscode.workspace.onDidChangeTextDocument((event: vscode.TextDocumentChangeEvent) => {
+    if (event.reason === undefined || event.contentChanges.length === 0) return;
+    const docState = documentStates.get(event.document.uri);
+    // The text being undone may not have been recorded yet; the state still describes it until the listeners below run
+    docState.flushScheduledSnapshot(event.document);
+    if (docState.restoreSnapshot(event.document)) {
+        if (docState.isTargetLanguage) {
+            translationDiagnostics.update(event.document, docState);
+        } else {
+            translationDiagnostics.clear(event.document.uri);
+        }
+        syncActiveDocument(vscode.window.activeTextEditor);
+    } else {
+        docState.lastDocumentText = event.document.getText();
+    }
+}));
+
+// Edits anywhere in a partially translated document keep its ranges on the translated text
+context.subscriptions.push(vscode.workspace.onDidChangeTextDocument((event: vscode.TextDocumentChangeEvent) => {
+    const docState = documentStates.translatedDocuments().find(state => state.uri === event.document.uri.toString());
+    let ranges = docState?.translatedRanges;
+    // The toggle's own edit was already accounted for when it stored the ranges
+    if (!docState || !ranges || event.document.version <= docState.rangesVersion) return;
+    for (const change of event.contentChanges) {
+        ranges = shiftRanges(ranges, change.rangeOffset, change.rangeLength, change.text.length);
+    }
+    docState.translatedRanges = ranges;
+}));
+
+// Mappings follow their words through edits, so identifiers keep matching the text as it is now
+context.subscriptions.push(vscode.workspace.onDidChangeTextDocument((event: vscode.TextDocumentChangeEvent) => {
+    const docState = documentStates.translatedDocuments().find(state => state.uri === event.document.uri.toString());
+    if (docState && event.contentChanges.length > 0) {
+        docState.remapTo(event.document.getText(), event.contentChanges);
+    }
+}));
+
 context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(async (event: vscode.TextDocumentChangeEvent) => {
-    const isTargetLang = context.workspaceState.get('isTargetLanguage', false);
-    log(`Text document changed: isTargetLanguage=${isTargetLang}, isProcessingEdit=${isProcessingEdit}`);
-    if (isProcessingEdit) return;
+    // Undone and redone text was mapped when it was first typed
+    if (isProcessingEdit || event.reason !== undefined) return;
 
     const editor = vscode.window.activeTextEditor;
     if (!editor || editor.document !== event.document) {
         log('Skipping: No active editor or document mismatch');
         return;
     }
-    if (lastDocumentText === null) {
-        lastDocumentText = editor.document.getText();
-        log(`Initialized lastDocumentText on first change: '${lastDocumentText}'`);
+    const docState = documentStates.get(event.document.uri);
+    const isTargetLang = docState.isTargetLanguage;
+    const mappingManager = docState.mappingManager;
+    log(`Text document changed: isTargetLanguage=${isTargetLang}, isProcessingEdit=${isProcessingEdit}`);
+    if (docState.lastDocumentText === null) {
+        docState.lastDocumentText = editor.document.getText();
+        log(`Initialized lastDocumentText on first change: '${docState.lastDocumentText}'`);
     }
+    const lastDocumentText = docState.lastDocumentText;
 
     isProcessingEdit = true;
     const currentText = editor.document.getText();
-    const currentLanguage = languageSelector.getCurrentLanguage();
+    const currentLanguage = docState.language;
     const script = detectScript(currentText);
-    const currentDictionary = require('./translation').currentDictionary;
+    const currentDictionary = docState.dictionary;
 
     for (const change of event.contentChanges) {
         const startOffset = editor.document.offsetAt(change.range.start);
@@ -498,6 +721,15 @@ context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(async (event
         }
 
         const checkOffset = change.text ? startOffset + change.text.length : startOffset;
+        if (!isInRanges(docState.translatedRanges, checkOffset)) {
+            log(`Skipping change at ${checkOffset}: outside the translated ranges`);
+            continue;
+        }
+        if (docState.translationMode === 'comments' && !isInsideComment(currentText, getTokenizerLanguage(editor.document), checkOffset)) {
+            log(`Skipping change at ${checkOffset}: outside comments in comment-only mode`);
+            continue;
+        }
+
         const wordRange = editor.document.getWordRangeAtPosition(
             editor.document.positionAt(checkOffset),
             /[\p{L}\p{M}\p{N}]+/u // Match only letters and numbers
@@ -520,22 +752,6 @@ context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(async (event
 
             if (currentWord) {
                 await handleCompoundDetection(currentWord, wordStartOffset, checkOffset, currentText, currentLanguage, script, currentDictionary, mappingManager);
-            } else {
-                const textBeforeDeletion = lastDocumentText.substring(0, startOffset);
-                const allTerms = mappingManager.getAllTerms();
-                for (const [term, _] of Object.entries(currentDictionary)) {
-                    const termStart = startOffset - term.length;
-                    if (termStart >= 0 && lastDocumentText.substring(termStart, startOffset + actualDeletedText.length).includes(term)) {
-                        const occurrencesBefore = (textBeforeDeletion.match(new RegExp(term, 'g')) || []).length + 1;
-                        const identifier = `${term}_${occurrencesBefore}`;
-                        if (allTerms[identifier]) {
-                            mappingManager.removeTermPictographic(identifier, termStart);
-                            log(`Removed mapping '${identifier}' for '${term}' due to deletion`);
-                            lastDeletedIdentifier = identifier;
-                            break;
-                        }
-                    }
-                }
             }
         } else if (change.text) {
             log(`Insertion detected: text='${change.text}', current word: '${currentWord}'`);
@@ -546,14 +762,15 @@ context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(async (event
             lastCursorOffset = startOffset + change.text.length;
             deletionContext = '';
 
-            if (currentWord) {
+            if (currentWord && takeCompletionInsert(event.document, startOffset, change.text)) {
+                log(`Accepted completion '${change.text}' at ${startOffset}, mapped by the completion command`);
+            } else if (currentWord) {
                 await handleCompoundDetection(currentWord, wordStartOffset, checkOffset, currentText, currentLanguage, script, currentDictionary, mappingManager);
             }
 
             if (/[\s+$_) (*&^%$#@!}{]['";:.,></?\|-]+/.test(change.text)) { // Treat special chars as delimiters
                 insertionBuffer = '';
                 bufferStartOffset = null;
-                lastDeletedIdentifier = null;
                 deletedTextBuffer = '';
                 log('Delimiter detected (space or special char), buffers reset');
             } else {
@@ -564,19 +781,81 @@ context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(async (event
     }
 
     isProcessingEdit = false;
-    lastDocumentText = currentText;
-    log(`Document updated, post-update text='${lastDocumentText}'`);
+    docState.lastDocumentText = currentText;
+    if (isTargetLang) {
+        docState.scheduleSnapshot(event.document);
+        translationDiagnostics.scheduleUpdate(event.document, docState);
+    }
+    log(`Document updated, post-update text='${currentText}'`);
 }));
 
-    registerHoverProvider(context, {
+    context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(focusDocument));
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration('vscode-translator.identifierConventions')) {
+            setIdentifierConventions(getIdentifierConventions());
+        }
+        if (!event.affectsConfiguration('vscode-translator.translationDiagnostics')) return;
+        for (const docState of documentStates.translatedDocuments()) {
+            const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === docState.uri);
+            if (document) {
+                translationDiagnostics.update(document, docState);
+            }
+        }
+    }));
+
+    // Sidecar maps let translated files be closed, reopened or committed and still go back to English
+    const restoreFromSidecar = async (document: vscode.TextDocument) => {
+        if (isSidecarEnabled() && await loadSidecar(document, documentStates.get(document.uri), context)) {
+            translationDiagnostics.update(document, documentStates.get(document.uri));
+            syncActiveDocument(vscode.window.activeTextEditor);
+        }
+    };
+    vscode.workspace.textDocuments.forEach(restoreFromSidecar);
+    context.subscriptions.push(vscode.workspace.onDidOpenTextDocument(restoreFromSidecar));
+    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument((document) => {
+        const docState = documentStates.get(document.uri);
+        docState.persistTranslatedText();
+        if (isSidecarEnabled() && docState.isTargetLanguage) {
+            writeSidecar(document, docState);
+        }
+    }));
+    context.subscriptions.push(vscode.workspace.onDidCloseTextDocument((document) => {
+        translationDiagnostics.clear(document.uri);
+        documentStates.release(document.uri);
+    }));
+
+    // A pulled or hand-edited team glossary, a save in the dictionary editor or an import applies to documents that are already translated
+    const reloadDictionary = (language: string) => {
+        for (const docState of documentStates.translatedDocuments()) {
+            if (docState.language !== language) continue;
+            const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === docState.uri);
+            docState.dictionary = loadDictionary(context, language, document?.languageId, document?.uri);
+            log(`Reloaded ${language} dictionary for ${docState.uri} after a dictionary change`);
+            if (document) {
+                translationDiagnostics.update(document, docState);
+            }
+        }
+        syncActiveDocument(vscode.window.activeTextEditor);
+    };
+    context.subscriptions.push(watchWorkspaceDictionaries(reloadDictionary));
+
+    const translatorState: TranslatorState = {
         selectedLanguage: () => languageSelector.getCurrentLanguage(),
         currentDictionary: () => require('./translation').currentDictionary,
-        currentMap: () => mappingManager,
-        lastOriginalText: () => require('./translation').lastOriginalText || '',
-        lastTranslatedText: () => require('./translation').lastTranslatedText || '',
-    });
-
-    context.subscriptions.push(toggleDisposable, addToDictDisposable, removeFromDictDisposable);
+        documentState: (document: vscode.TextDocument) => documentStates.get(document.uri),
+    };
+    registerHoverProvider(context, translatorState);
+    registerTranslatedView(context, translatorState);
+    registerMigrateDictionaryCommand(context);
+    registerRoundTripCommand(context, translatorState);
+    registerCodeActions(context, translatorState);
+    registerInlayHints(context, translatorState);
+    registerCompletionProvider(context, translatorState);
+    registerDictionaryEditor(context, translatorState, reloadDictionary);
+    registerGlossaryCommands(context, translatorState, reloadDictionary);
+    registerBatchTranslation(context, translatorState);
+
+    context.subscriptions.push(toggleDisposable, toggleCommentsDisposable, toggleSelectionDisposable, toggleRtlDisposable, addToDictDisposable, removeFromDictDisposable, addWordDisposable, useMeaningDisposable, acceptCompletionDisposable);
     log('Extension activated successfully');
 }
 
@@ -588,10 +867,8 @@ export function deactivate()
 export interface TranslatorState 
 {
     selectedLanguage: () => string;
-    currentDictionary: () => { [key: string]: string[] };
-    currentMap: () => MappingManager;
-    lastOriginalText: () => string;
-    lastTranslatedText: () => string;
+    currentDictionary: () => Dictionary;
+    documentState: (document: vscode.TextDocument) => DocumentTranslationState;
 
 }
 
@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './utils';
+import { TranslatorState } from './extension';
+import { readDictionaryFile, readDictionaryLayers, getDictionaryMetadata } from './dictionary';
+import { getLayerFolder, getLayerPaths, pickDictionaryLayer, updateDictionaryLayer } from './dictionaryLayers';
+import { GlossaryEntries, GlossaryFormat, GlossaryIssue, GlossaryLanguage, ParsedGlossary, formatFromPath, formatGlossary, parseGlossary } from './glossaryFormats';
+
+const FORMAT_FILTERS: { [name: string]: string[] } = {
+    'Glossaries': ['csv', 'tsv', 'tmx', 'po'],
+    'CSV / TSV': ['csv', 'tsv'],
+    'Translation memory (TMX)': ['tmx'],
+    'gettext (PO)': ['po'],
+};
+
+const FORMAT_ITEMS: (vscode.QuickPickItem & { format: GlossaryFormat })[] = [
+    { label: 'CSV', description: 'Spreadsheet, one row per term with meanings joined by "; "', format: 'csv' },
+    { label: 'TSV', description: 'Tab-separated spreadsheet', format: 'tsv' },
+    { label: 'TMX', description: 'Translation memory, one unit per term and meaning', format: 'tmx' },
+    { label: 'PO', description: 'gettext catalog, English msgid and translated msgstr', format: 'po' },
+];
+
+function glossaryLanguage(language: string): GlossaryLanguage {
+    const metadata = getDictionaryMetadata(language);
+    return {
+        code: language,
+        names: [metadata?.name, metadata?.nativeName].filter((name): name is string => !!name),
+    };
+}
+
+// Merged meanings of every layer, the dictionary as translation sees it
+function mergedEntries(context: vscode.ExtensionContext, language: string, resource?: vscode.Uri): GlossaryEntries {
+    const merged = readDictionaryLayers(getLayerPaths(context, language, resource), language);
+    const entries: GlossaryEntries = {};
+    for (const [term, entry] of Object.entries(merged.entries)) {
+        if (entry.en.length > 0) {
+            entries[term] = entry.en;
+        }
+    }
+    return entries;
+}
+
+function describeIssues(title: string, issues: GlossaryIssue[]): string[] {
+    if (issues.length === 0) return [];
+    return [`## ${title} (${issues.length})`, '', ...issues.map(issue => `- ${issue.line > 0 ? `Line ${issue.line}: ` : ''}${issue.reason} — \`${issue.text.replace(/`/g, "'")}\``), ''];
+}
+
+async function showImportReport(fileName: string, language: string, summary: string, skipped: GlossaryIssue[], conflicts: GlossaryIssue[]) {
+    const lines = [`# Import of ${fileName} into ${language}`, '', summary, '', ...describeIssues('Conflicts', conflicts), ...describeIssues('Skipped', skipped)];
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: lines.join('\n') });
+    await vscode.window.showTextDocument(document, { preview: false });
+}
+
+/**
+ * Replacing into the user layer can't hide the terms the workspace layer above it defines. Names them and
+ * asks whether to go on; true when there are none.
+ */
+async function confirmWorkspaceTermsRemain(context: vscode.ExtensionContext, language: string, resource?: vscode.Uri): Promise<boolean> {
+    const folder = getLayerFolder(context, 'workspace', resource);
+    const workspacePath = folder && path.join(folder, `${language}.json`);
+    if (!workspacePath || !fs.existsSync(workspacePath)) return true;
+    const terms = Object.entries(readDictionaryFile(workspacePath, language).entries)
+        .filter(([, entry]) => entry.en.length > 0)
+        .map(([term]) => term);
+    if (terms.length === 0) return true;
+    const shown = terms.slice(0, 10).join(', ') + (terms.length > 10 ? `, … (${terms.length - 10} more)` : '');
+    const choice = await vscode.window.showWarningMessage(
+        `The workspace ${language} dictionary defines ${terms.length} term(s) that will stay after replacing the user dictionary: ${shown}`,
+        { modal: true }, 'Replace Anyway');
+    return choice === 'Replace Anyway';
+}
+
+/**
+ * Merge adds the imported meanings after the existing ones of each term. Replace makes the language
+ * contain only the imported terms: the layer file is rewritten and terms of lower layers are hidden.
+ * Terms of the workspace layer stay when replacing the user layer; the user is told which first.
+ */
+async function importDictionary(context: vscode.ExtensionContext, state: TranslatorState, onDidImport: (language: string) => void) {
+    const language = state.selectedLanguage();
+    if (!language || language === 'en') {
+        vscode.window.showErrorMessage('Please select a target language first.');
+        return;
+    }
+    const resource = vscode.window.activeTextEditor?.document.uri;
+    const picked = await vscode.window.showOpenDialog({ canSelectMany: false, filters: FORMAT_FILTERS, openLabel: `Import into ${language}` });
+    if (!picked || picked.length === 0) return;
+    const filePath = picked[0].fsPath;
+    const format = formatFromPath(filePath);
+    if (!format) {
+        vscode.window.showErrorMessage(`Unsupported glossary file ${path.basename(filePath)}. Use .csv, .tsv, .tmx or .po.`);
+        return;
+    }
+
+    let parsed: ParsedGlossary;
+    let existing: GlossaryEntries;
+    try {
+        existing = mergedEntries(context, language, resource);
+        parsed = parseGlossary(fs.readFileSync(filePath, 'utf8'), format, glossaryLanguage(language));
+    } catch (error) {
+        log(`Error reading glossary ${filePath}: ${error}`);
+        vscode.window.showErrorMessage(`Could not read ${path.basename(filePath)}: ${error}`);
+        return;
+    }
+    const importedCount = Object.keys(parsed.entries).length;
+    if (importedCount === 0) {
+        vscode.window.showErrorMessage(`No ${language} terms found in ${path.basename(filePath)} (${parsed.skipped.length} row(s) skipped).`);
+        return;
+    }
+
+    const layer = await pickDictionaryLayer(language, `receive ${importedCount} imported term(s)`, resource);
+    if (!layer) return;
+    const mode = await vscode.window.showQuickPick([
+        { label: 'Merge', description: 'Add imported meanings to the existing terms', replace: false },
+        { label: 'Replace', description: `Keep only the imported terms in ${language}`, replace: true },
+    ], { placeHolder: `How should ${path.basename(filePath)} be applied?`, ignoreFocusOut: true });
+    if (!mode) return;
+    if (mode.replace && layer === 'user' && !await confirmWorkspaceTermsRemain(context, language, resource)) return;
+
+    const changes: { [term: string]: string[] | undefined } = {};
+    const conflicts = [...parsed.conflicts];
+    if (mode.replace) {
+        // Terms of the layer itself are dropped (its tombstones stay), terms other layers still show are hidden
+        const folder = getLayerFolder(context, layer, resource);
+        const layerPath = folder && path.join(folder, `${language}.json`);
+        const layerEntries = layerPath && fs.existsSync(layerPath) ? readDictionaryFile(layerPath, language).entries : {};
+        for (const [term, entry] of Object.entries(layerEntries)) {
+            if (entry.en.length > 0) changes[term] = undefined;
+        }
+        for (const term of Object.keys(existing)) {
+            changes[term] = [];
+        }
+        Object.assign(changes, parsed.entries);
+    } else {
+        const owners = new Map<string, string>();
+        for (const [term, meanings] of Object.entries(existing)) {
+            for (const meaning of meanings) {
+                if (!owners.has(meaning.toLowerCase())) owners.set(meaning.toLowerCase(), term);
+            }
+        }
+        for (const [term, meanings] of Object.entries(parsed.entries)) {
+            const current = existing[term] ?? [];
+            const added = meanings.filter(meaning => !current.includes(meaning));
+            if (added.length === 0) continue;
+            for (const meaning of added) {
+                const owner = owners.get(meaning.toLowerCase());
+                if (owner && owner !== term) {
+                    // Not tied to a line: the clash is with the existing dictionary
+                    conflicts.push({ line: 0, text: `${term} = ${meaning}`, reason: `"${meaning}" already belongs to "${owner}" in the ${language} dictionary` });
+                }
+            }
+            changes[term] = [...current, ...added];
+        }
+    }
+
+    if (!updateDictionaryLayer(context, language, layer, changes, resource)) return;
+    onDidImport(language);
+
+    const changedCount = Object.values(changes).filter(meanings => meanings && meanings.length > 0).length;
+    const summary = `${mode.replace ? 'Replaced' : 'Merged'} ${changedCount} term(s) into the ${layer} ${language} dictionary from ${path.basename(filePath)}; ${parsed.skipped.length} skipped, ${conflicts.length} conflict(s).`;
+    log(summary);
+    const issues = parsed.skipped.length + conflicts.length;
+    const choice = await vscode.window.showInformationMessage(summary, ...(issues > 0 ? ['Show Report'] : []));
+    if (choice === 'Show Report') {
+        await showImportReport(path.basename(filePath), language, summary, parsed.skipped, conflicts);
+    }
+}
+
+// Writes the merged dictionary; parts of speech and scopes have no place in these formats and are left out
+async function exportDictionary(context: vscode.ExtensionContext, state: TranslatorState) {
+    const language = state.selectedLanguage();
+    if (!language || language === 'en') {
+        vscode.window.showErrorMessage('Please select a target language first.');
+        return;
+    }
+    const picked = await vscode.window.showQuickPick(FORMAT_ITEMS, { placeHolder: `Export the ${language} dictionary as` });
+    if (!picked) return;
+    const resource = vscode.window.activeTextEditor?.document.uri;
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, `${language}.${picked.format}`) : undefined,
+        filters: { [picked.label]: [picked.format] },
+    });
+    if (!target) return;
+
+    try {
+        const entries = mergedEntries(context, language, resource);
+        fs.writeFileSync(target.fsPath, formatGlossary(entries, picked.format, glossaryLanguage(language)), 'utf8');
+        log(`Exported ${Object.keys(entries).length} ${language} term(s) to ${target.fsPath}`);
+        vscode.window.showInformationMessage(`Exported ${Object.keys(entries).length} ${language} term(s) to ${path.basename(target.fsPath)}`);
+    } catch (error) {
+        log(`Error exporting ${language} dictionary: ${error}`);
+        vscode.window.showErrorMessage(`Could not export the ${language} dictionary: ${error}`);
+    }
+}
+
+export function registerGlossaryCommands(context: vscode.ExtensionContext, state: TranslatorState, onDidImport: (language: string) => void) {
+    const importDisposable = vscode.commands.registerCommand('vscode-translator.importDictionary', () => importDictionary(context, state, onDidImport));
+    const exportDisposable = vscode.commands.registerCommand('vscode-translator.exportDictionary', () => exportDictionary(context, state));
+    context.subscriptions.push(importDisposable, exportDisposable);
+    log('Glossary import/export commands registered successfully');
+}
@@ -0,0 +1,364 @@
+// Spreadsheet and translation-memory formats for dictionaries. Pure text in and out, no editor APIs.
+
+export type GlossaryFormat = 'csv' | 'tsv' | 'tmx' | 'po';
+
+export const GLOSSARY_EXTENSIONS: GlossaryFormat[] = ['csv', 'tsv', 'tmx', 'po'];
+
+// target term -> English meanings, the flat shape of a dictionary
+export interface GlossaryEntries {
+    [term: string]: string[];
+}
+
+// A row, translation unit or PO entry that was left out or needs a look, with its line in the file
+export interface GlossaryIssue {
+    line: number;
+    text: string;
+    reason: string;
+}
+
+export interface ParsedGlossary {
+    entries: GlossaryEntries;
+    skipped: GlossaryIssue[];
+    conflicts: GlossaryIssue[];
+}
+
+// Names a column or TMX language of the dictionary may go by: its code, English name and native name
+export interface GlossaryLanguage {
+    code: string;
+    names: string[];
+}
+
+export function formatFromPath(filePath: string): GlossaryFormat | undefined {
+    const extension = filePath.split('.').pop()?.toLowerCase();
+    return GLOSSARY_EXTENSIONS.find(format => format === extension);
+}
+
+/**
+ * Collects term -> meaning pairs in file order. A pair seen before is skipped as a duplicate, and an
+ * English word given to several terms is imported for each but reported as a conflict.
+ */
+class GlossaryBuilder {
+    readonly result: ParsedGlossary = { entries: {}, skipped: [], conflicts: [] };
+    private pairLines = new Map<string, number>();
+    private termsByMeaning = new Map<string, { term: string; line: number }>();
+
+    add(term: string, meanings: string[], line: number, text: string): void {
+        term = term.trim();
+        meanings = meanings.map(meaning => meaning.trim()).filter(Boolean);
+        if (!term || meanings.length === 0) {
+            this.skip(line, text, !term ? 'no target term' : 'no English meaning');
+            return;
+        }
+        for (const meaning of meanings) {
+            const pair = `${term}\u0000${meaning}`;
+            const firstLine = this.pairLines.get(pair);
+            if (firstLine !== undefined) {
+                this.skip(line, text, `duplicate of line ${firstLine}`);
+                continue;
+            }
+            this.pairLines.set(pair, line);
+            const other = this.termsByMeaning.get(meaning.toLowerCase());
+            if (other && other.term !== term) {
+                this.result.conflicts.push({ line, text, reason: `"${meaning}" is also the meaning of "${other.term}" (line ${other.line})` });
+            } else if (!other) {
+                this.termsByMeaning.set(meaning.toLowerCase(), { term, line });
+            }
+            this.result.entries[term] = [...(this.result.entries[term] ?? []), meaning];
+        }
+    }
+
+    skip(line: number, text: string, reason: string): void {
+        this.result.skipped.push({ line, text: text.trim().slice(0, 120), reason });
+    }
+}
+
+export function parseGlossary(content: string, format: GlossaryFormat, language: GlossaryLanguage): ParsedGlossary {
+    const text = content.replace(/^\uFEFF/, '');
+    switch (format) {
+        case 'csv': return parseDelimited(text, ',', language);
+        case 'tsv': return parseDelimited(text, '\t', language);
+        case 'tmx': return parseTmx(text, language);
+        case 'po': return parsePo(text);
+    }
+}
+
+export function formatGlossary(entries: GlossaryEntries, format: GlossaryFormat, language: GlossaryLanguage): string {
+    switch (format) {
+        case 'csv': return formatDelimited(entries, ',', language);
+        case 'tsv': return formatDelimited(entries, '\t', language);
+        case 'tmx': return formatTmx(entries, language);
+        case 'po': return formatPo(entries, language);
+    }
+}
+
+// ---- CSV / TSV ----
+
+// Several meanings share one cell, separated by semicolons (or pipes); a term may also repeat on several rows
+const MEANING_SEPARATOR = /\s*[;|]\s*/;
+const ENGLISH_HEADERS = ['en', 'english', 'meaning', 'meanings', 'source'];
+const TERM_HEADERS = ['term', 'target', 'translation'];
+
+function readRecords(text: string, delimiter: string): { cells: string[]; line: number; raw: string }[] {
+    const records: { cells: string[]; line: number; raw: string }[] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+    let recordStart = 0;
+    for (let i = 0; i <= text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else if (char === undefined) {
+                quoted = false;
+                i--;
+            } else {
+                if (char === '\n') line++;
+                cell += char;
+            }
+        } else if (char === '"' && cell === '') {
+            quoted = true;
+        } else if (char === delimiter) {
+            cells.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r' || char === undefined) {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            cells.push(cell);
+            if (cells.some(value => value.trim() !== '')) {
+                records.push({ cells, line: recordLine, raw: text.substring(recordStart, i).replace(/\r?\n?$/, '') });
+            }
+            cells = [];
+            cell = '';
+            line++;
+            recordLine = line;
+            recordStart = i + 1;
+        } else {
+            cell += char;
+        }
+    }
+    return records;
+}
+
+function parseDelimited(text: string, delimiter: string, language: GlossaryLanguage): ParsedGlossary {
+    const builder = new GlossaryBuilder();
+    const records = readRecords(text, delimiter);
+    const names = [language.code, ...language.names].map(name => name.toLowerCase());
+
+    // Without a recognisable header the first column is the term and the second the English meanings
+    let termColumn = 0;
+    let englishColumn = 1;
+    const header = records[0]?.cells.map(cell => cell.trim().toLowerCase());
+    if (header) {
+        const english = header.findIndex(cell => ENGLISH_HEADERS.includes(cell));
+        const term = header.findIndex(cell => TERM_HEADERS.includes(cell) || names.includes(cell));
+        if (english !== -1 || term !== -1) {
+            englishColumn = english !== -1 ? english : (term === 0 ? 1 : 0);
+            termColumn = term !== -1 ? term : header.findIndex((_, column) => column !== englishColumn);
+            records.shift();
+        }
+    }
+
+    for (const record of records) {
+        const term = record.cells[termColumn] ?? '';
+        const meanings = (record.cells[englishColumn] ?? '').split(MEANING_SEPARATOR);
+        builder.add(term, meanings, record.line, record.raw);
+    }
+    return builder.result;
+}
+
+function quoteCell(value: string, delimiter: string): string {
+    if (delimiter === '\t') {
+        return value.replace(/[\t\r\n]+/g, ' ');
+    }
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One row per term, meanings joined with "; "
+function formatDelimited(entries: GlossaryEntries, delimiter: string, language: GlossaryLanguage): string {
+    const rows = [[language.code, 'english']];
+    for (const [term, meanings] of Object.entries(entries)) {
+        rows.push([term, meanings.join('; ')]);
+    }
+    return rows.map(row => row.map(value => quoteCell(value, delimiter)).join(delimiter)).join('\n') + '\n';
+}
+
+// ---- TMX ----
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function decodeXml(value: string): string {
+    return value
+        .replace(/<[^>]+>/g, '')
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
+
+function lineAt(text: string, index: number): number {
+    let line = 1;
+    for (let i = text.indexOf('\n'); i !== -1 && i < index; i = text.indexOf('\n', i + 1)) {
+        line++;
+    }
+    return line;
+}
+
+// Primary subtag, so es-ES and es_MX count as es
+function primaryLanguage(tag: string): string {
+    return tag.toLowerCase().split(/[-_]/)[0];
+}
+
+function parseTmx(text: string, language: GlossaryLanguage): ParsedGlossary {
+    const builder = new GlossaryBuilder();
+    const code = primaryLanguage(language.code);
+    for (const unit of text.matchAll(/<tu\b[\s\S]*?<\/tu>/g)) {
+        const line = lineAt(text, unit.index!);
+        const english: string[] = [];
+        const targets: string[] = [];
+        for (const variant of unit[0].matchAll(/<tuv\b([^>]*)>([\s\S]*?)<\/tuv>/g)) {
+            const tag = variant[1].match(/(?:xml:)?lang\s*=\s*"([^"]+)"/i)?.[1] ?? '';
+            const segment = variant[2].match(/<seg>([\s\S]*?)<\/seg>/)?.[1];
+            if (segment === undefined) continue;
+            if (primaryLanguage(tag) === 'en') english.push(decodeXml(segment));
+            else if (primaryLanguage(tag) === code) targets.push(decodeXml(segment));
+        }
+        if (english.length === 0 || targets.length === 0) {
+            builder.skip(line, unit[0].replace(/\s+/g, ' '), `no ${english.length === 0 ? 'en' : code} variant`);
+            continue;
+        }
+        for (const target of targets) {
+            builder.add(target, english, line, unit[0].replace(/\s+/g, ' '));
+        }
+    }
+    return builder.result;
+}
+
+// One translation unit per term and meaning, so every pair survives tools that expect one-to-one units
+function formatTmx(entries: GlossaryEntries, language: GlossaryLanguage): string {
+    const units: string[] = [];
+    for (const [term, meanings] of Object.entries(entries)) {
+        for (const meaning of meanings) {
+            units.push([
+                '    <tu>',
+                `      <tuv xml:lang="en"><seg>${escapeXml(meaning)}</seg></tuv>`,
+                `      <tuv xml:lang="${escapeXml(language.code)}"><seg>${escapeXml(term)}</seg></tuv>`,
+                '    </tu>',
+            ].join('\n'));
+        }
+    }
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<tmx version="1.4">',
+        '  <header creationtool="Natural Language Translator" creationtoolversion="1" segtype="phrase" o-tmf="nlt-dictionary" adminlang="en" srclang="en" datatype="plaintext"/>',
+        '  <body>',
+        ...units,
+        '  </body>',
+        '</tmx>',
+        '',
+    ].join('\n');
+}
+
+// ---- gettext PO ----
+
+function escapePo(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t');
+}
+
+function unescapePo(value: string): string {
+    return value.replace(/\\(.)/g, (_, char) => char === 'n' ? '\n' : char === 't' ? '\t' : char);
+}
+
+interface PoEntry {
+    line: number;
+    flags: string[];
+    fields: { [keyword: string]: string };
+    raw: string[];
+}
+
+function readPoEntries(text: string): PoEntry[] {
+    const entries: PoEntry[] = [];
+    let entry: PoEntry | undefined;
+    let field: string | undefined;
+    const lines = text.split(/\r?\n/);
+    lines.forEach((line, i) => {
+        const trimmed = line.trim();
+        if (trimmed === '' || trimmed.startsWith('#~')) {
+            entry = undefined;
+            field = undefined;
+            return;
+        }
+        if (!entry) {
+            entry = { line: i + 1, flags: [], fields: {}, raw: [] };
+            entries.push(entry);
+        }
+        entry.raw.push(line);
+        if (trimmed.startsWith('#,')) {
+            entry.flags.push(...trimmed.slice(2).split(',').map(flag => flag.trim()));
+        } else if (trimmed.startsWith('#')) {
+            return;
+        } else {
+            const match = trimmed.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"$/);
+            if (match) {
+                field = match[1];
+                entry.fields[field] = unescapePo(match[2]);
+            } else if (field && /^".*"$/.test(trimmed)) {
+                entry.fields[field] += unescapePo(trimmed.slice(1, -1));
+            }
+        }
+    });
+    return entries;
+}
+
+// msgid is the English meaning and msgstr the term; the header entry and untranslated or fuzzy entries are skipped
+function parsePo(text: string): ParsedGlossary {
+    const builder = new GlossaryBuilder();
+    for (const entry of readPoEntries(text)) {
+        const raw = entry.raw.join(' ');
+        const english = entry.fields['msgid'];
+        if (!english) continue;
+        if (entry.fields['msgid_plural'] !== undefined) {
+            builder.skip(entry.line, raw, 'plural forms are not supported');
+        } else if (entry.flags.includes('fuzzy')) {
+            builder.skip(entry.line, raw, 'marked fuzzy');
+        } else if (!entry.fields['msgstr']) {
+            builder.skip(entry.line, raw, 'untranslated (empty msgstr)');
+        } else {
+            builder.add(entry.fields['msgstr'], [english], entry.line, raw);
+        }
+    }
+    return builder.result;
+}
+
+// One entry per meaning; an English word with several terms gets the term as msgctxt so the msgids stay unique
+function formatPo(entries: GlossaryEntries, language: GlossaryLanguage): string {
+    const termCounts = new Map<string, number>();
+    for (const meanings of Object.values(entries)) {
+        for (const meaning of meanings) {
+            termCounts.set(meaning, (termCounts.get(meaning) ?? 0) + 1);
+        }
+    }
+    const blocks = [[
+        `# ${language.names[0] ?? language.code} dictionary exported by Natural Language Translator`,
+        'msgid ""',
+        'msgstr ""',
+        '"Content-Type: text/plain; charset=UTF-8\\n"',
+        `"Language: ${escapePo(language.code)}\\n"`,
+    ].join('\n')];
+    for (const [term, meanings] of Object.entries(entries)) {
+        for (const meaning of meanings) {
+            const block: string[] = [];
+            if (termCounts.get(meaning)! > 1) {
+                block.push(`msgctxt "${escapePo(term)}"`);
+            }
+            block.push(`msgid "${escapePo(meaning)}"`, `msgstr "${escapePo(term)}"`);
+            blocks.push(block.join('\n'));
+        }
+    }
+    return blocks.join('\n\n') + '\n';
+}
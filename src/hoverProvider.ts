@@ -1,7 +1,13 @@
 import * as vscode from 'vscode';
 import { log } from './utils';
 import { TranslatorState } from './extension';
-import { detectScript } from './translation';
+import { detectScript, isCasedScript, splitNonLatinCompound, Script } from './translation';
+import { getDictionaryEntry, getDictionaryMetadata } from './dictionary';
+import { getDictionaryIndex } from './indexes';
+import { isInRanges, occurrenceText } from './translatedRanges';
+
+// Scripts written without spaces between words
+const UNSPACED_SCRIPTS: Script[] = ['logographic', 'japanese', 'thai'];
 
 export function registerHoverProvider(context: vscode.ExtensionContext, state: TranslatorState) 
 {
@@ -9,27 +15,35 @@ export function registerHoverProvider(context: vscode.ExtensionContext, state: T
         {
         provideHover(document: vscode.TextDocument, position: vscode.Position) 
         {
-            const range = document.getWordRangeAtPosition(position, /[@%$&#\[\{]?[\p{L}\p{M}\p{N}]+[\]_,}*]?/u);
+            let range = document.getWordRangeAtPosition(position, /[@%$&#\[\{]?[\p{L}\p{M}\p{N}]+[\]_,}*]?/u);
             if (!range) {
                 log(`No word range found at position ${position.line}:${position.character}`);
                 return undefined;
             }
 
+            const documentState = state.documentState(document);
+            // The English rest of a partially translated document hovers like an English document
+            const isTargetLanguage = documentState.isTargetLanguage && isInRanges(documentState.translatedRanges, document.offsetAt(range.start));
+            const mappingManager = documentState.mappingManager;
+            const script = detectScript(document.getText(range));
+
+            // In unspaced scripts hover the dictionary word under the cursor, unless the whole run is a known compound
+            if (isTargetLanguage && UNSPACED_SCRIPTS.includes(script) && !mappingManager.getCompoundByTranslated(document.getText(range), script)) {
+                range = narrowToSegment(document, range, position);
+            }
+
             const word = document.getText(range);
             const offset = document.offsetAt(range.start);
-            const isTargetLanguage = context.workspaceState.get('isTargetLanguage', false);
-            const script = detectScript(word);
 
             log(`Hover requested for '${word}' at offset ${offset}, isTargetLanguage=${isTargetLanguage}`);
 
-            const mappingManager = state.currentMap();
             const allTerms = mappingManager.getAllTerms();
             const allCompounds = mappingManager.getAllCompounds();
 
             if (isTargetLanguage) 
                 {
                 // Check compound term first
-                const compoundId = mappingManager.getCompoundByTranslated(word, script);
+                const compoundId = mappingManager.getCompoundByTranslated(word, script, offset);
                 if (compoundId && allCompounds[compoundId]) 
                     {
                     const compound = allCompounds[compoundId];
@@ -54,10 +68,10 @@ export function registerHoverProvider(context: vscode.ExtensionContext, state: T
                 }
 
                 // Look up individual term
-                const textBefore = document.getText().substring(0, offset);
+                const textBefore = occurrenceText(document.getText(), documentState.translatedRanges, offset);
                 const coreWord = word.replace(/^[@%$&#\[\{]+|[\]_,}*]+$/, '');
                 const isTypeAnnotation = checkIfTypeAnnotation(document, position, textBefore);
-                const idBase = script === 'latin' ? coreWord.toLowerCase() : coreWord;
+                const idBase = isCasedScript(script) ? coreWord.toLowerCase() : coreWord;
                 const escapedIdBase = idBase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
                 const occurrences = (textBefore.match(new RegExp(escapedIdBase, 'gi')) || []).length;
                 const identifier = `${idBase}_${occurrences + 1}${isTypeAnnotation ? '_type' : ''}`;
@@ -71,23 +85,24 @@ export function registerHoverProvider(context: vscode.ExtensionContext, state: T
                     log(`Fallback lookup for '${identifier}' -> '${lowerIdentifier}': ${mappedValue || 'unknown'}`);
                 }
 
+                const details = describeEntry(documentState.language, coreWord);
                 if (mappedValue) 
                     {
                     log(`Hover: '${identifier}' maps to '${mappedValue}' at occurrence ${occurrences + 1}, isTypeAnnotation=${isTypeAnnotation}`);
-                    const hoverText = new vscode.MarkdownString(`**${word}**: ${mappedValue}`);
+                    const hoverText = new vscode.MarkdownString(`**${word}**: ${mappedValue}${details}`);
                     hoverText.isTrusted = true;
                     return new vscode.Hover(hoverText, range);
                 }
 
                 // Fallback to dictionary
-                const currentDict = state.currentDictionary();
+                const currentDict = documentState.dictionary;
                 const possibleTranslations = getOriginalTerms(coreWord.toLowerCase(), currentDict);
                 if (possibleTranslations && possibleTranslations.length > 0) {
                     const meanings = isTypeAnnotation && possibleTranslations.includes('for')
                         ? 'for'
                         : possibleTranslations.join(', ');
                     log(`Hover: '${word}' maps to '${meanings}' via dictionary fallback`);
-                    const hoverText = new vscode.MarkdownString(`**${word}**: ${meanings}`);
+                    const hoverText = new vscode.MarkdownString(`**${word}**: ${meanings}${details}`);
                     hoverText.isTrusted = true;
                     return new vscode.Hover(hoverText, range);
                 }
@@ -102,8 +117,9 @@ export function registerHoverProvider(context: vscode.ExtensionContext, state: T
                 if (translations && translations.length > 0) {
                     const translatedText = translations.join(', ');
                     log(`Hover: English '${word}' translates to '${translatedText}' in ${selectedLanguage}`);
+                    const languageName = getDictionaryMetadata(selectedLanguage)?.name ?? selectedLanguage;
                     const hoverText = new vscode.MarkdownString(
-                        `**${word}**: ${translatedText} (${selectedLanguage})`
+                        `**${word}**: ${translatedText} (${languageName})`
                     );
                     hoverText.isTrusted = true;
                     return new vscode.Hover(hoverText, range);
@@ -119,6 +135,28 @@ export function registerHoverProvider(context: vscode.ExtensionContext, state: T
     log('Hover provider registered successfully');
 }
 
+function narrowToSegment(document: vscode.TextDocument, range: vscode.Range, position: vscode.Position): vscode.Range 
+{
+    const cursor = document.offsetAt(position);
+    let segmentStart = document.offsetAt(range.start);
+    for (const segment of splitNonLatinCompound(document.getText(range))) {
+        const segmentEnd = segmentStart + segment.length;
+        if (cursor >= segmentStart && cursor < segmentEnd) {
+            return new vscode.Range(document.positionAt(segmentStart), document.positionAt(segmentEnd));
+        }
+        segmentStart = segmentEnd;
+    }
+    return range;
+}
+
+// Part of speech and scopes from a v2 dictionary, e.g. " _(keyword · python)_"
+function describeEntry(language: string, term: string): string 
+{
+    const entry = getDictionaryEntry(language, term) ?? getDictionaryEntry(language, term.toLowerCase());
+    const details = [entry?.pos, ...(entry?.scopes ?? [])].filter(Boolean);
+    return details.length > 0 ? ` _(${details.join(' · ')})_` : '';
+}
+
 function checkIfTypeAnnotation(document: vscode.TextDocument, position: vscode.Position, textBefore: string): boolean 
 {
     const lineText = document.lineAt(position.line).text;
@@ -131,10 +169,5 @@ function checkIfTypeAnnotation(document: vscode.TextDocument, position: vscode.P
 
 function getOriginalTerms(targetTerm: string, dictionary: { [key: string]: string[] }): string[] 
 {
-    for (const [dictTerm, enTerms] of Object.entries(dictionary)) {
-        if (dictTerm.toLowerCase() === targetTerm.toLowerCase()) {
-            return enTerms;
-        }
-    }
-    return [];
+    return getDictionaryIndex(dictionary).meaningsOf(targetTerm, true);
 }
\ No newline at end of file
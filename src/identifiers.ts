@@ -0,0 +1,103 @@
+import { applyCaseStyle } from './caseStyle';
+
+// Splitting identifiers into the words they are made of, and rebuilding translated ones in the same naming convention
+
+export type IdentifierConvention = 'camelCase' | 'snake_case' | 'kebab-case' | 'SCREAMING_CASE';
+
+export const IDENTIFIER_CONVENTIONS: IdentifierConvention[] = ['camelCase', 'snake_case', 'kebab-case', 'SCREAMING_CASE'];
+
+// Set from vscode-translator.identifierConventions; everything is recognized until then
+export let identifierConventions: IdentifierConvention[] = IDENTIFIER_CONVENTIONS;
+
+export function setIdentifierConventions(conventions: IdentifierConvention[]): void {
+    identifierConventions = conventions;
+}
+
+// Acronym before a capitalized word (HTTP in HTTPServer), capitalized word, uppercase run, lowercase run, digits
+const CAMEL_PART = /\p{Lu}+(?=\p{Lu}\p{Ll})|\p{Lu}[\p{Ll}\p{M}]+|\p{Lu}[\p{Lu}\p{M}]*|[\p{Ll}\p{M}]+|\p{N}+|[^\p{Lu}\p{Ll}\p{N}]+/gu;
+const DIGITS = /^\p{N}+$/u;
+
+/**
+ * Parts of a single word token, which always join back to the word: `HTTPServer` is HTTP + Server, `MAX` stays
+ * whole, and digits are parts of their own (`html5Parser`) unless they belong to a single letter (`v2`, `i18n`).
+ * Without camelCase only the digits are split off.
+ */
+export function splitIdentifier(word: string, conventions: IdentifierConvention[] = identifierConventions): string[] {
+    const pieces = conventions.includes('camelCase') ? word.match(CAMEL_PART) || [] : word.match(/\p{N}+|[^\p{N}]+/gu) || [];
+    const parts: string[] = [];
+    for (const piece of pieces) {
+        const previous = parts[parts.length - 1];
+        if (previous !== undefined && (DIGITS.test(piece) && isSingleLetter(previous) || isSingleLetter(piece) && /\p{N}$/u.test(previous))) {
+            parts[parts.length - 1] = previous + piece;
+        } else {
+            parts.push(piece);
+        }
+    }
+    return parts.length > 0 && parts.join('') === word ? parts : [word];
+}
+
+function isSingleLetter(text: string): boolean {
+    return /^\p{L}\p{M}*$/u.test(text);
+}
+
+export interface IdentifierPiece {
+    text: string;
+    kind: string;
+}
+
+/**
+ * The convention of the multi-word identifier each piece belongs to, if any: words joined by `_` (snake_case or
+ * SCREAMING_CASE) or `-` (kebab-case), all in one case. In lexed code a `-` between identifiers is an operator, so
+ * kebab-case is only recognized inside comments, strings and unlexed text.
+ */
+export function identifierConventionsOf(
+    pieces: IdentifierPiece[],
+    lexed: boolean,
+    conventions: IdentifierConvention[] = identifierConventions
+): (IdentifierConvention | undefined)[] {
+    const result = new Array<IdentifierConvention | undefined>(pieces.length).fill(undefined);
+    const isWord = (i: number) => i < pieces.length && /^[\p{L}\p{M}\p{N}]+$/u.test(pieces[i].text);
+    const joins = (i: number, separator: string) => pieces[i].text === separator
+        && (separator === '_' || !lexed || pieces[i].kind !== 'punctuation');
+
+    let i = 0;
+    while (i < pieces.length) {
+        if (!isWord(i)) {
+            i++;
+            continue;
+        }
+        const separator = pieces[i + 1]?.text;
+        let end = i + 1;
+        if (separator === '_' || separator === '-') {
+            while (end + 1 < pieces.length && joins(end, separator) && isWord(end + 1)) end += 2;
+        }
+        const words = pieces.slice(i, end).filter((_, offset) => offset % 2 === 0).map(piece => piece.text);
+        const convention = end - i > 1 ? conventionOfWords(words, separator) : undefined;
+        if (convention && conventions.includes(convention)) {
+            for (let k = i; k < end; k += 2) result[k] = convention;
+        }
+        i = end;
+    }
+    return result;
+}
+
+function conventionOfWords(words: string[], separator: string): IdentifierConvention | undefined {
+    const joined = words.join('');
+    if (!/\p{L}/u.test(joined)) return undefined;
+    if (!/\p{Lu}/u.test(joined)) return separator === '_' ? 'snake_case' : 'kebab-case';
+    if (!/\p{Ll}/u.test(joined) && separator === '_') return 'SCREAMING_CASE';
+    return undefined;
+}
+
+// A translated word of an identifier, in the case its convention writes every word in
+export function applyConvention(word: string, convention: IdentifierConvention, language = 'en'): string {
+    switch (convention) {
+        case 'snake_case':
+        case 'kebab-case':
+            return applyCaseStyle(word, 'lower', language, true);
+        case 'SCREAMING_CASE':
+            return applyCaseStyle(word, 'upper', language, true);
+        default:
+            return word;
+    }
+}
@@ -0,0 +1,143 @@
+import { Dictionary } from './engine';
+import { DictionaryEntry } from './dictionary';
+
+/**
+ * Case-folded lookups over a flat dictionary, built once per loaded dictionary.
+ * Lists keep dictionary order so the first match is the one a linear scan would have found.
+ */
+export class DictionaryIndex {
+    // folded English meaning -> target terms
+    private forward = new Map<string, string[]>();
+    // folded target term -> target terms
+    private reverse = new Map<string, string[]>();
+    readonly size: number;
+
+    constructor(private dictionary: Dictionary, private entries: DictionaryEntries = {}) {
+        const terms = Object.keys(dictionary);
+        this.size = terms.length;
+        for (const term of terms) {
+            appendUnique(this.reverse, term.toLowerCase(), term);
+            for (const english of dictionary[term]) {
+                appendUnique(this.forward, english.toLowerCase(), term);
+            }
+        }
+    }
+
+    // Target terms that have the English word among their meanings, ignoring case
+    targetsFor(english: string): string[] {
+        return this.forward.get(english.toLowerCase()) ?? [];
+    }
+
+    // Dictionary keys equal to the term; case-insensitive for cased scripts
+    termsMatching(term: string, caseInsensitive: boolean): string[] {
+        if (!caseInsensitive) {
+            return this.dictionary[term] ? [term] : [];
+        }
+        return this.reverse.get(term.toLowerCase()) ?? [];
+    }
+
+    meaningsOf(term: string, caseInsensitive: boolean): string[] {
+        const match = this.termsMatching(term, caseInsensitive)[0];
+        return match ? this.dictionary[match] : [];
+    }
+
+    // Part of speech, forms and scopes of a term that is an entry of the layers the dictionary was built from
+    entryOf(term: string): DictionaryEntry | undefined {
+        return this.entries[term];
+    }
+}
+
+function appendUnique(map: Map<string, string[]>, key: string, value: string): void {
+    const values = map.get(key);
+    if (!values) {
+        map.set(key, [value]);
+    } else if (!values.includes(value)) {
+        values.push(value);
+    }
+}
+
+export interface DictionaryEntries {
+    [term: string]: DictionaryEntry;
+}
+
+const indexes = new WeakMap<Dictionary, DictionaryIndex>();
+// The entries each flat dictionary was built from, which the flat target -> English map has no room for
+const entriesOf = new WeakMap<Dictionary, DictionaryEntries>();
+
+export function setDictionaryEntries(dictionary: Dictionary, entries: DictionaryEntries): void {
+    entriesOf.set(dictionary, entries);
+    indexes.delete(dictionary);
+}
+
+// Cached per dictionary object; rebuilt when terms were added or removed since
+export function getDictionaryIndex(dictionary: Dictionary): DictionaryIndex {
+    let index = indexes.get(dictionary);
+    if (!index || index.size !== Object.keys(dictionary).length) {
+        index = new DictionaryIndex(dictionary, entriesOf.get(dictionary));
+        indexes.set(dictionary, index);
+    }
+    return index;
+}
+
+/**
+ * Counts how often a word occurs, case-insensitively and also inside longer words, in the text passed to add() so far.
+ * Gives the same numbers as matching the word against the whole prefix with a /gi regex, which is how mapping
+ * identifiers are numbered, without rescanning the prefix for every token. Tokens must be added whole, the way the
+ * tokenizer splits them, so a word can't straddle two of them.
+ */
+export class OccurrenceCounter {
+    // folded token -> times added
+    private tokenCounts = new Map<string, number>();
+    // folded token -> counted words found inside it, with how often
+    private containedWords = new Map<string, Map<string, number>>();
+    // counted word -> running total
+    private totals = new Map<string, number>();
+
+    add(token: string): void {
+        const folded = token.toLowerCase();
+        if (!/[\p{L}\p{M}\p{N}]/u.test(folded)) {
+            return;
+        }
+        let contained = this.containedWords.get(folded);
+        if (!contained) {
+            contained = new Map();
+            for (const word of this.totals.keys()) {
+                const matches = countMatches(folded, word);
+                if (matches > 0) contained.set(word, matches);
+            }
+            this.containedWords.set(folded, contained);
+        }
+        this.tokenCounts.set(folded, (this.tokenCounts.get(folded) ?? 0) + 1);
+        contained.forEach((matches, word) => this.totals.set(word, this.totals.get(word)! + matches));
+    }
+
+    count(word: string): number {
+        const folded = word.toLowerCase();
+        let total = this.totals.get(folded);
+        if (total === undefined) {
+            // First time this word is asked for: count it in every distinct token seen so far
+            total = 0;
+            for (const [token, contained] of this.containedWords) {
+                const matches = countMatches(token, folded);
+                if (matches > 0) {
+                    contained.set(folded, matches);
+                    total += matches * this.tokenCounts.get(token)!;
+                }
+            }
+            this.totals.set(folded, total);
+        }
+        return total;
+    }
+}
+
+// Non-overlapping occurrences, like String.match with a global regex
+export function countMatches(text: string, word: string): number {
+    if (!word) {
+        return 0;
+    }
+    let matches = 0;
+    for (let at = text.indexOf(word); at !== -1; at = text.indexOf(word, at + word.length)) {
+        matches++;
+    }
+    return matches;
+}
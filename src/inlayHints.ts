@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { log } from './utils';
+import { TranslatorState } from './extension';
+import { splitTranslatable } from './lexer';
+import { getDictionaryIndex, OccurrenceCounter } from './indexes';
+import { isCasedScript, getModeClasses, getTokenizerLanguage } from './translation';
+import { getDocumentScript } from './codeActions';
+import { tokensInRanges } from './translatedRanges';
+
+// Which translated words get a hint: compounds, words whose term has several English meanings, or every word
+export type InlayHintsMode = 'compounds' | 'ambiguous' | 'all';
+
+export function isInlayHintsEnabled(): boolean {
+    return vscode.workspace.getConfiguration('vscode-translator').get<boolean>('inlayHints', false);
+}
+
+export function getInlayHintsMode(): InlayHintsMode {
+    return vscode.workspace.getConfiguration('vscode-translator').get<InlayHintsMode>('inlayHintsMode', 'all');
+}
+
+const changeEmitter = new vscode.EventEmitter<void>();
+
+// Asks the editor for fresh hints, e.g. after a toggle or a dictionary change
+export function refreshInlayHints(): void {
+    changeEmitter.fire();
+}
+
+/**
+ * English originals after translated words and compounds, resolved like the hover: the mapped original
+ * of the occurrence first, then the dictionary's first meaning. Occurrences are counted over the whole
+ * document so the identifiers match the ones translateToOriginal will use.
+ */
+class TranslationInlayHintsProvider implements vscode.InlayHintsProvider {
+    readonly onDidChangeInlayHints = changeEmitter.event;
+
+    constructor(private state: TranslatorState) {}
+
+    provideInlayHints(document: vscode.TextDocument, range: vscode.Range): vscode.InlayHint[] {
+        const docState = this.state.documentState(document);
+        if (!isInlayHintsEnabled() || !docState.isTargetLanguage) {
+            return [];
+        }
+        const mode = getInlayHintsMode();
+        const text = document.getText();
+        const script = getDocumentScript(docState.language, text);
+        const isCased = isCasedScript(script);
+        const fold = (word: string) => isCased ? word.toLowerCase() : word;
+        const index = getDictionaryIndex(docState.dictionary);
+        const allTerms = docState.mappingManager.getAllTerms();
+        const compoundOriginals = new Map<string, string>();
+        for (const compound of Object.values(docState.mappingManager.getAllCompounds())) {
+            compoundOriginals.set(fold(compound.translated), compound.original);
+        }
+
+        const rangeStart = document.offsetAt(range.start);
+        const rangeEnd = document.offsetAt(range.end);
+        const occurrences = new OccurrenceCounter();
+        const hints: vscode.InlayHint[] = [];
+        let offset = 0;
+        const pieces = splitTranslatable(text, docState.tokenizerLanguage ?? getTokenizerLanguage(document), docState.translatedClasses ?? getModeClasses(docState.translationMode));
+        const translated = tokensInRanges(pieces.map(piece => piece.text), docState.translatedRanges);
+        for (const [i, piece] of pieces.entries()) {
+            const word = piece.text;
+            const start = offset;
+            offset += word.length;
+            if (start > rangeEnd) break;
+            // The English rest of a partially translated document neither gets hints nor counts
+            if (!translated[i]) continue;
+            const inRange = offset >= rangeStart && piece.translatable && /\p{L}/u.test(word);
+            const occurrence = inRange ? occurrences.count(fold(word)) + 1 : 0;
+            occurrences.add(word);
+            if (!inRange) continue;
+
+            let original = compoundOriginals.get(fold(word));
+            if (original !== undefined && mode === 'ambiguous') continue;
+            if (original === undefined) {
+                const meanings = index.meaningsOf(word, isCased);
+                if (mode === 'compounds' || (mode === 'ambiguous' && meanings.length < 2)) continue;
+                const isTypeAnnotation = /:\s*$|->\s*$/.test(text.substring(Math.max(0, start - 10), start));
+                const regular = `${fold(word)}_${occurrence}`;
+                original = (isTypeAnnotation ? allTerms[`${regular}_type`] ?? allTerms[regular] : allTerms[regular] ?? allTerms[`${regular}_type`]) ?? meanings[0];
+            }
+            // Words left in English need no hint
+            if (!original || original.toLowerCase() === word.toLowerCase()) continue;
+
+            const hint = new vscode.InlayHint(document.positionAt(offset), original);
+            hint.paddingLeft = true;
+            hint.tooltip = `${word} → ${original}`;
+            hints.push(hint);
+        }
+        return hints;
+    }
+}
+
+export function registerInlayHints(context: vscode.ExtensionContext, state: TranslatorState) {
+    const provider = vscode.languages.registerInlayHintsProvider('*', new TranslationInlayHintsProvider(state));
+
+    const toggleDisposable = vscode.commands.registerCommand('vscode-translator.toggleInlayHints', async () => {
+        const enabled = !isInlayHintsEnabled();
+        await vscode.workspace.getConfiguration('vscode-translator').update('inlayHints', enabled, vscode.ConfigurationTarget.Global);
+        vscode.window.showInformationMessage(`English inlay hints ${enabled ? 'enabled' : 'disabled'}`);
+    });
+
+    const configDisposable = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('vscode-translator.inlayHints') || event.affectsConfiguration('vscode-translator.inlayHintsMode')) {
+            refreshInlayHints();
+        }
+    });
+
+    context.subscriptions.push(provider, toggleDisposable, configDisposable, changeEmitter);
+    log('Inlay hints provider registered successfully');
+}
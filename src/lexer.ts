@@ -0,0 +1,454 @@
+export type TokenClass = 'keyword' | 'identifier' | 'string' | 'comment' | 'number' | 'member' | 'importPath';
+
+export type LexTokenKind = TokenClass | 'punctuation' | 'whitespace';
+
+export interface LexToken {
+    kind: LexTokenKind;
+    text: string;
+    offset: number;
+}
+
+export interface TextPiece {
+    text: string;
+    kind: LexTokenKind;
+    translatable: boolean;
+}
+
+export const ALL_TOKEN_CLASSES: TokenClass[] = ['keyword', 'identifier', 'string', 'comment', 'number', 'member', 'importPath'];
+export const DEFAULT_TRANSLATED_CLASSES: TokenClass[] = ['keyword', 'identifier', 'comment'];
+
+interface LanguageProfile {
+    keywords: Set<string>;
+    lineComments: string[];
+    blockComments: [string, string][];
+    quotes: string[];
+    // Keywords after which a string literal is a module specifier (import x from '...', require('...'))
+    importStringKeywords: string[];
+    // Keywords that start a dotted module path running to the end of the statement (import java.util.List;)
+    importPathKeywords: string[];
+    memberOperators: string[];
+    stringPrefix: RegExp;
+    docstrings: boolean;
+}
+
+const JS_KEYWORDS = [
+    'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+    'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null',
+    'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+    'let', 'static', 'async', 'await', 'of', 'from', 'as', 'get', 'set', 'undefined'
+];
+
+const TS_KEYWORDS = [
+    ...JS_KEYWORDS, 'interface', 'type', 'implements', 'namespace', 'module', 'declare', 'abstract', 'public',
+    'private', 'protected', 'readonly', 'keyof', 'infer', 'is', 'any', 'unknown', 'never', 'string', 'number',
+    'boolean', 'symbol', 'object', 'bigint'
+];
+
+const PYTHON_KEYWORDS = [
+    'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+    'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal',
+    'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield', 'self', 'print', 'str', 'int', 'float',
+    'bool', 'list', 'dict', 'set', 'tuple'
+];
+
+const JAVA_KEYWORDS = [
+    'abstract', 'assert', 'boolean', 'break', 'byte', 'case', 'catch', 'char', 'class', 'const', 'continue',
+    'default', 'do', 'double', 'else', 'enum', 'extends', 'final', 'finally', 'float', 'for', 'goto', 'if',
+    'implements', 'import', 'instanceof', 'int', 'interface', 'long', 'native', 'new', 'package', 'private',
+    'protected', 'public', 'return', 'short', 'static', 'strictfp', 'super', 'switch', 'synchronized', 'this',
+    'throw', 'throws', 'transient', 'try', 'void', 'volatile', 'while', 'true', 'false', 'null', 'var', 'record'
+];
+
+const C_KEYWORDS = [
+    'auto', 'break', 'case', 'char', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extern',
+    'float', 'for', 'goto', 'if', 'inline', 'int', 'long', 'register', 'restrict', 'return', 'short', 'signed',
+    'sizeof', 'static', 'struct', 'switch', 'typedef', 'union', 'unsigned', 'void', 'volatile', 'while', 'bool',
+    'true', 'false', 'NULL', 'include', 'define', 'ifdef', 'ifndef', 'endif', 'pragma'
+];
+
+const CPP_KEYWORDS = [
+    ...C_KEYWORDS, 'class', 'namespace', 'template', 'typename', 'public', 'private', 'protected', 'virtual',
+    'override', 'new', 'delete', 'this', 'throw', 'try', 'catch', 'using', 'nullptr', 'auto', 'constexpr',
+    'friend', 'operator', 'explicit', 'mutable', 'noexcept'
+];
+
+const CSHARP_KEYWORDS = [
+    'abstract', 'as', 'base', 'bool', 'break', 'byte', 'case', 'catch', 'char', 'checked', 'class', 'const',
+    'continue', 'decimal', 'default', 'delegate', 'do', 'double', 'else', 'enum', 'event', 'explicit', 'extern',
+    'false', 'finally', 'fixed', 'float', 'for', 'foreach', 'goto', 'if', 'implicit', 'in', 'int', 'interface',
+    'internal', 'is', 'lock', 'long', 'namespace', 'new', 'null', 'object', 'operator', 'out', 'override',
+    'params', 'private', 'protected', 'public', 'readonly', 'ref', 'return', 'sbyte', 'sealed', 'short', 'sizeof',
+    'static', 'string', 'struct', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'uint', 'ulong', 'unchecked',
+    'unsafe', 'ushort', 'using', 'var', 'virtual', 'void', 'volatile', 'while', 'async', 'await', 'get', 'set'
+];
+
+const C_FAMILY = {
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']] as [string, string][],
+    memberOperators: ['.', '->', '::'],
+    docstrings: false,
+};
+
+const PROFILES: { [languageId: string]: LanguageProfile } = {
+    javascript: {
+        keywords: new Set(JS_KEYWORDS),
+        lineComments: ['//'],
+        blockComments: [['/*', '*/']],
+        quotes: ['"', "'", '`'],
+        importStringKeywords: ['from', 'import', 'require'],
+        importPathKeywords: [],
+        memberOperators: ['?.', '.'],
+        stringPrefix: /^$/,
+        docstrings: false,
+    },
+    typescript: {
+        keywords: new Set(TS_KEYWORDS),
+        lineComments: ['//'],
+        blockComments: [['/*', '*/']],
+        quotes: ['"', "'", '`'],
+        importStringKeywords: ['from', 'import', 'require'],
+        importPathKeywords: [],
+        memberOperators: ['?.', '.'],
+        stringPrefix: /^$/,
+        docstrings: false,
+    },
+    python: {
+        keywords: new Set(PYTHON_KEYWORDS),
+        lineComments: ['#'],
+        blockComments: [],
+        quotes: ['"""', "'''", '"', "'"],
+        importStringKeywords: [],
+        importPathKeywords: ['import', 'from'],
+        memberOperators: ['.'],
+        stringPrefix: /^(?:[rRbBuUfF]|[rR][bBfF]|[bBfF][rR])$/,
+        docstrings: true,
+    },
+    java: {
+        ...C_FAMILY,
+        keywords: new Set(JAVA_KEYWORDS),
+        quotes: ['"""', '"', "'"],
+        importStringKeywords: [],
+        importPathKeywords: ['import', 'package'],
+        stringPrefix: /^$/,
+    },
+    c: {
+        ...C_FAMILY,
+        keywords: new Set(C_KEYWORDS),
+        quotes: ['"', "'"],
+        importStringKeywords: ['include'],
+        importPathKeywords: [],
+        stringPrefix: /^(?:L|u8|u|U)$/,
+    },
+    cpp: {
+        ...C_FAMILY,
+        keywords: new Set(CPP_KEYWORDS),
+        quotes: ['"', "'"],
+        importStringKeywords: ['include'],
+        importPathKeywords: [],
+        stringPrefix: /^(?:L|u8|u|U|R)$/,
+    },
+    csharp: {
+        ...C_FAMILY,
+        keywords: new Set(CSHARP_KEYWORDS),
+        quotes: ['"', "'"],
+        importStringKeywords: [],
+        importPathKeywords: ['using', 'namespace'],
+        stringPrefix: /^$/,
+    },
+};
+
+// Same word/punctuation/whitespace split as getTokenRegex in engine.ts
+const WORD_SPLIT = /[\p{L}\p{M}\p{N}]+|[^\s\p{L}\p{M}\p{N}]+|\s+/gu;
+
+PROFILES.javascriptreact = PROFILES.javascript;
+PROFILES.typescriptreact = PROFILES.typescript;
+
+export function isLexerSupported(languageId: string): boolean {
+    return PROFILES[languageId] !== undefined;
+}
+
+// Files read from disk have no language mode, so it comes from the extension
+const LANGUAGE_IDS: { [extension: string]: string } = {
+    '.js': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript', '.jsx': 'javascriptreact',
+    '.ts': 'typescript', '.mts': 'typescript', '.cts': 'typescript', '.tsx': 'typescriptreact',
+    '.py': 'python', '.java': 'java', '.c': 'c', '.h': 'c',
+    '.cpp': 'cpp', '.cc': 'cpp', '.cxx': 'cpp', '.hpp': 'cpp', '.cs': 'csharp',
+};
+
+export function languageIdForPath(filePath: string): string {
+    const extension = /\.[^./\\]+$/.exec(filePath)?.[0].toLowerCase() ?? '';
+    return LANGUAGE_IDS[extension] ?? 'plaintext';
+}
+
+// True when the word is a keyword in any of the supported programming languages
+export function isKnownKeyword(word: string): boolean {
+    return Object.values(PROFILES).some(profile => profile.keywords.has(word));
+}
+
+export function lex(text: string, languageId: string): LexToken[] {
+    const profile = PROFILES[languageId];
+    if (!profile) {
+        return [];
+    }
+
+    const tokens: LexToken[] = [];
+    let pos = 0;
+    let lineHasCode = false;
+    let pendingImportString = false;
+    let inImportPath = false;
+    // Inside the braces of `import { readFile as read } from 'fs'`, whose names belong to the imported module
+    let importClause: 'none' | 'open' | 'braces' = 'none';
+    // After `from os import path as p`, a comma goes back to imported names (`, sep`)
+    let afterImportAlias = false;
+
+    const push = (kind: LexTokenKind, end: number) => {
+        tokens.push({ kind, text: text.substring(pos, end), offset: pos });
+        pos = end;
+    };
+    const startsWithAny = (candidates: string[]) => candidates.find(c => text.startsWith(c, pos));
+
+    while (pos < text.length) {
+        const char = text[pos];
+
+        if (/\s/.test(char)) {
+            let end = pos;
+            while (end < text.length && /\s/.test(text[end])) {
+                if (text[end] === '\n') {
+                    lineHasCode = false;
+                    inImportPath = false;
+                    afterImportAlias = false;
+                }
+                end++;
+            }
+            push('whitespace', end);
+            continue;
+        }
+
+        const lineComment = startsWithAny(profile.lineComments);
+        if (lineComment) {
+            const newline = text.indexOf('\n', pos);
+            push('comment', newline === -1 ? text.length : newline);
+            continue;
+        }
+
+        const blockComment = profile.blockComments.find(([open]) => text.startsWith(open, pos));
+        if (blockComment) {
+            const close = text.indexOf(blockComment[1], pos + blockComment[0].length);
+            push('comment', close === -1 ? text.length : close + blockComment[1].length);
+            continue;
+        }
+
+        const quote = startsWithAny(profile.quotes);
+        if (quote) {
+            const end = scanString(text, pos, quote);
+            const isDocstring = profile.docstrings && quote.length === 3 && !lineHasCode;
+            const isImport = pendingImportString || inImportPath;
+            push(isDocstring ? 'comment' : isImport ? 'importPath' : 'string', end);
+            pendingImportString = false;
+            importClause = 'none';
+            lineHasCode = true;
+            continue;
+        }
+
+        if (char === '<' && pendingImportString && profile.importStringKeywords.includes('include')) {
+            const close = text.indexOf('>', pos);
+            const newline = text.indexOf('\n', pos);
+            if (close !== -1 && (newline === -1 || close < newline)) {
+                push('importPath', close + 1);
+                pendingImportString = false;
+                continue;
+            }
+        }
+
+        if (/[\p{N}]/u.test(char) || (char === '.' && /[0-9]/.test(text[pos + 1] || ''))) {
+            const match = /^[\p{N}.]+(?:[eE][+-]?\d+)?[\p{L}\p{N}_]*/u.exec(text.substring(pos, pos + 64));
+            push('number', pos + (match ? match[0].length : 1));
+            lineHasCode = true;
+            continue;
+        }
+
+        if (/[\p{L}\p{M}_$]/u.test(char)) {
+            const match = /^[\p{L}\p{M}\p{N}_$]+/u.exec(text.substring(pos));
+            const word = match ? match[0] : char;
+            const end = pos + word.length;
+
+            // String prefixes such as Python f"..." or C L"..." belong to the literal
+            const prefixedQuote = profile.stringPrefix.test(word) ? profile.quotes.find(q => text.startsWith(q, end)) : undefined;
+            if (prefixedQuote) {
+                push(inImportPath ? 'importPath' : 'string', scanString(text, end, prefixedQuote));
+                lineHasCode = true;
+                continue;
+            }
+
+            const previous = previousSignificant(tokens);
+            let kind: LexTokenKind;
+            if (inImportPath && word !== 'as' && word !== 'import') {
+                kind = 'importPath';
+            } else if (importClause === 'braces' && !profile.keywords.has(word) && previous?.text !== 'as') {
+                // The exported name; an alias after `as` is a local name like any other
+                kind = 'importPath';
+            } else if (previous && previous.kind === 'punctuation' && profile.memberOperators.includes(previous.text)) {
+                kind = 'member';
+            } else if (profile.keywords.has(word)) {
+                kind = 'keyword';
+            } else {
+                kind = 'identifier';
+            }
+
+            if (profile.importPathKeywords.includes(word) && !lineHasCode) {
+                inImportPath = true;
+            } else if (word === 'as') {
+                afterImportAlias = inImportPath;
+                inImportPath = false;
+            }
+            if (word === 'import' && !lineHasCode && profile.importStringKeywords.includes(word)) {
+                importClause = 'open';
+            } else if (word === 'from') {
+                importClause = 'none';
+            }
+            if (profile.importStringKeywords.includes(word)) {
+                pendingImportString = true;
+            } else if (kind !== 'keyword') {
+                pendingImportString = false;
+            }
+
+            push(kind, end);
+            lineHasCode = true;
+            continue;
+        }
+
+        const operator = startsWithAny(profile.memberOperators);
+        if (operator) {
+            push('punctuation', pos + operator.length);
+            lineHasCode = true;
+            continue;
+        }
+
+        if (char === ';') {
+            inImportPath = false;
+            afterImportAlias = false;
+            importClause = 'none';
+        } else if (char === ',' && afterImportAlias) {
+            inImportPath = true;
+            afterImportAlias = false;
+        } else if (char === '{' && importClause === 'open') {
+            importClause = 'braces';
+        } else if (char === '}' && importClause === 'braces') {
+            importClause = 'open';
+        }
+        if (char !== '(' && char !== '#' && char !== '*' && char !== '{' && char !== ',') {
+            pendingImportString = false;
+        }
+        push('punctuation', pos + 1);
+        lineHasCode = true;
+    }
+
+    // A name bound by an import keeps the module's spelling wherever it is used, and a name accessed as a member
+    // (`this.users`) is a member where it is declared too, so translating never renames only one side of either
+    const importedNames = new Set(tokens.filter(token => token.kind === 'importPath' && NAME.test(token.text)).map(token => token.text));
+    const memberNames = new Set(tokens.filter(token => token.kind === 'member').map(token => token.text));
+    for (const token of tokens) {
+        if (token.kind === 'identifier' && importedNames.has(token.text)) {
+            token.kind = 'importPath';
+        } else if (token.kind === 'identifier' && memberNames.has(token.text)) {
+            token.kind = 'member';
+        }
+    }
+    return tokens;
+}
+
+const NAME = /^[\p{L}\p{M}\p{N}_$]+$/u;
+
+function scanString(text: string, start: number, quote: string): number {
+    let pos = start + quote.length;
+    while (pos < text.length) {
+        if (text[pos] === '\\') {
+            pos += 2;
+            continue;
+        }
+        if (text.startsWith(quote, pos)) {
+            return pos + quote.length;
+        }
+        // Single-line literals stop at the end of the line so one stray quote can't swallow the file
+        if (text[pos] === '\n' && quote.length === 1 && quote !== '`') {
+            return pos;
+        }
+        pos++;
+    }
+    return text.length;
+}
+
+function previousSignificant(tokens: LexToken[]): LexToken | undefined {
+    for (let i = tokens.length - 1; i >= 0; i--) {
+        if (tokens[i].kind !== 'whitespace') {
+            return tokens[i];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Splits a document into the same word/punctuation/whitespace pieces the translator has always used,
+ * marking which pieces belong to a token class that should be translated.
+ */
+export function splitTranslatable(text: string, languageId: string, classes: TokenClass[] = DEFAULT_TRANSLATED_CLASSES): TextPiece[] {
+    const wordRegex = /^[\p{L}\p{M}\p{N}]+$/u;
+    const pieces: TextPiece[] = [];
+
+    if (!isLexerSupported(languageId)) {
+        for (const part of text.match(WORD_SPLIT) || []) {
+            pieces.push({ text: part, kind: wordRegex.test(part) ? 'identifier' : 'punctuation', translatable: wordRegex.test(part) });
+        }
+        return pieces;
+    }
+
+    for (const token of lex(text, languageId)) {
+        if (token.kind === 'whitespace' || token.kind === 'punctuation') {
+            pieces.push({ text: token.text, kind: token.kind, translatable: false });
+            continue;
+        }
+        const enabled = classes.includes(token.kind);
+        if (!enabled) {
+            pieces.push({ text: token.text, kind: token.kind, translatable: false });
+            continue;
+        }
+        // Comments and literals are prose: translate the words inside, keep their delimiters
+        for (const part of token.text.match(WORD_SPLIT) || []) {
+            pieces.push({ text: part, kind: token.kind, translatable: wordRegex.test(part) });
+        }
+    }
+
+    return pieces;
+}
+
+// Comment spans of the text lexed last; every change of an edit, and the completions that follow it, ask about the same version
+let lastComments: { text: string; languageId: string; spans: [number, number][] } | undefined;
+
+function commentSpans(text: string, languageId: string): [number, number][] {
+    if (lastComments?.text !== text || lastComments.languageId !== languageId) {
+        const spans = lex(text, languageId)
+            .filter(token => token.kind === 'comment')
+            .map((token): [number, number] => [token.offset, token.offset + token.text.length]);
+        lastComments = { text, languageId, spans };
+    }
+    return lastComments.spans;
+}
+
+export function isInsideComment(text: string, languageId: string, offset: number): boolean {
+    // Spans come in document order
+    const spans = commentSpans(text, languageId);
+    let low = 0;
+    let high = spans.length - 1;
+    while (low <= high) {
+        const middle = (low + high) >> 1;
+        const [start, end] = spans[middle];
+        if (offset < start) {
+            high = middle - 1;
+        } else if (offset > end) {
+            low = middle + 1;
+        } else {
+            return true;
+        }
+    }
+    return false;
+}
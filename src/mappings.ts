@@ -1,15 +1,152 @@
-import * as vscode from 'vscode';
 import { log } from './utils';
-import { detectScript, getTokenRegex } from './translation';
+import { getTokenRegex, isCasedScript } from './engine';
+import { countMatches } from './indexes';
+import { matchTokens } from './tokenDiff';
+import { TranslatedRange, occurrenceText } from './translatedRanges';
+
+export interface TermMapping {
+    original: string;
+    translated: string;
+    position: number;
+    compoundIds: string[];
+}
+
+export interface CompoundMapping {
+    original: string;
+    translated: string;
+    parts: string[];
+    position: number;
+}
+
+// Plain-data copy of a mapping, used for sidecar files
+export interface MappingSnapshot {
+    terms: { [identifier: string]: TermMapping };
+    compounds: { [compoundId: string]: CompoundMapping };
+    compoundCounter: number;
+}
+
+// What changed from one mapping snapshot to the next; null removes the entry
+export interface MappingDelta {
+    terms: { [identifier: string]: TermMapping | null };
+    compounds: { [compoundId: string]: CompoundMapping | null };
+    compoundCounter: number;
+}
+
+export const EMPTY_MAPPING: MappingSnapshot = { terms: {}, compounds: {}, compoundCounter: 0 };
+
+const sameArray = (a: string[], b: string[]) => a.length === b.length && a.every((item, i) => item === b[i]);
+const sameTerm = (a: TermMapping, b: TermMapping) =>
+    a.original === b.original && a.translated === b.translated && a.position === b.position && sameArray(a.compoundIds, b.compoundIds);
+const sameCompound = (a: CompoundMapping, b: CompoundMapping) =>
+    a.original === b.original && a.translated === b.translated && a.position === b.position && sameArray(a.parts, b.parts);
+
+export function diffMappingSnapshots(from: MappingSnapshot, to: MappingSnapshot): MappingDelta {
+    const delta: MappingDelta = { terms: {}, compounds: {}, compoundCounter: to.compoundCounter };
+    for (const [id, term] of Object.entries(to.terms)) {
+        if (!from.terms[id] || !sameTerm(from.terms[id], term)) delta.terms[id] = term;
+    }
+    for (const id of Object.keys(from.terms)) {
+        if (!to.terms[id]) delta.terms[id] = null;
+    }
+    for (const [id, compound] of Object.entries(to.compounds)) {
+        if (!from.compounds[id] || !sameCompound(from.compounds[id], compound)) delta.compounds[id] = compound;
+    }
+    for (const id of Object.keys(from.compounds)) {
+        if (!to.compounds[id]) delta.compounds[id] = null;
+    }
+    return delta;
+}
+
+// The snapshot the deltas lead to, applied in order; the given snapshot is left as it is
+export function applyMappingDeltas(snapshot: MappingSnapshot, deltas: MappingDelta[]): MappingSnapshot {
+    const result: MappingSnapshot = { terms: { ...snapshot.terms }, compounds: { ...snapshot.compounds }, compoundCounter: snapshot.compoundCounter };
+    for (const delta of deltas) {
+        for (const [id, term] of Object.entries(delta.terms)) {
+            if (term) result.terms[id] = term; else delete result.terms[id];
+        }
+        for (const [id, compound] of Object.entries(delta.compounds)) {
+            if (compound) result.compounds[id] = compound; else delete result.compounds[id];
+        }
+        result.compoundCounter = delta.compoundCounter;
+    }
+    return result;
+}
+
+// One delta with the effect of first followed by second
+export function composeMappingDeltas(first: MappingDelta, second: MappingDelta): MappingDelta {
+    return {
+        terms: { ...first.terms, ...second.terms },
+        compounds: { ...first.compounds, ...second.compounds },
+        compoundCounter: second.compoundCounter,
+    };
+}
+
+// The part of a text an edit replaced: [start, beforeEnd) of the text before it became [start, afterEnd) after it
+export interface EditSpan {
+    start: number;
+    beforeEnd: number;
+    afterEnd: number;
+}
+
+// Key-value storage a mapping lives in; VS Code's workspaceState fits it as it is
+export interface MappingStore {
+    keys(): readonly string[];
+    get<T>(key: string, defaultValue?: T): T | undefined;
+    update(key: string, value: unknown): PromiseLike<void>;
+}
+
+// In-memory store for scratch translations that must not touch the workspace mapping, and for the CLI
+export class MemoryMemento implements MappingStore {
+    private values = new Map<string, unknown>();
+
+    keys(): readonly string[] {
+        return [...this.values.keys()];
+    }
+
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+    }
+
+    update(key: string, value: unknown): PromiseLike<void> {
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, value);
+        }
+        return Promise.resolve();
+    }
+}
+
+// Prefixes every key with a scope (the document URI) so documents never share mapping keys
+export class ScopedMemento implements MappingStore {
+    private prefix: string;
+
+    constructor(private inner: MappingStore, scope: string) {
+        this.prefix = `${scope}|`;
+    }
+
+    keys(): readonly string[] {
+        return this.inner.keys()
+            .filter(key => key.startsWith(this.prefix))
+            .map(key => key.substring(this.prefix.length));
+    }
+
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.inner.get<T>(this.prefix + key) ?? defaultValue;
+    }
+
+    update(key: string, value: unknown): PromiseLike<void> {
+        return this.inner.update(this.prefix + key, value);
+    }
+}
 
 export class MappingManager {
-    private context: vscode.ExtensionContext;
+    private state: MappingStore;
     private compoundCounter: number;
-    private isRebuilding: boolean = false; // Guard against concurrent rebuilds
 
-    constructor(context: vscode.ExtensionContext) {
-        this.context = context;
-        this.compoundCounter = this.context.workspaceState.get('compoundCounter', 0) as number;
+    constructor(state: MappingStore) {
+        this.state = state;
+        this.compoundCounter = this.state.get('compoundCounter', 0) as number;
     }
 
     addTerm(originalTerm: string, translatedTerm: string, position: number, identifier: string): string {
@@ -17,26 +154,28 @@ export class MappingManager {
             log(`ERROR: Invalid position type for '${identifier}': ${typeof position}, value=${position}`);
             position = 0; // Fallback to 0
         }
-        this.context.workspaceState.update(`original_${identifier}`, originalTerm);
-        this.context.workspaceState.update(`translated_${identifier}`, translatedTerm);
-        this.context.workspaceState.update(`position_${identifier}`, position);
-        this.context.workspaceState.update(`compoundIds_${identifier}`, []);
+        this.state.update(`original_${identifier}`, originalTerm);
+        this.state.update(`translated_${identifier}`, translatedTerm);
+        this.state.update(`position_${identifier}`, position);
+        this.state.update(`compoundIds_${identifier}`, []);
         log(`Added term: '${identifier}' -> '${originalTerm}' at position ${position}`);
         return identifier;
     }
 
     addInsertionPictographic(originalTerm: string, translatedTerm: string, position: number, currentText: string): string {
         if (typeof position !== 'number') {
-            log(`ERROR: Invalid position type for '${translatedTerm.toLowerCase()}_${position}': ${typeof position}, value=${position}`);
+            log(`ERROR: Invalid position type for insertion '${translatedTerm}': ${typeof position}, value=${position}`);
             position = 0; // Fallback to 0
         }
-        const identifier = `${translatedTerm.toLowerCase()}_${position}`;
+        // Numbered like the words of a translation, by the occurrences in the text before it
+        const base = translatedTerm.toLowerCase();
+        const identifier = `${base}_${countMatches(currentText.substring(0, position).toLowerCase(), base) + 1}`;
         log(`Adding insertion: '${translatedTerm}' -> '${originalTerm}' at position ${position}, identifier='${identifier}'`);
 
-        this.context.workspaceState.update(`original_${identifier}`, originalTerm);
-        this.context.workspaceState.update(`translated_${identifier}`, translatedTerm);
-        this.context.workspaceState.update(`position_${identifier}`, position);
-        this.context.workspaceState.update(`compoundIds_${identifier}`, []);
+        this.state.update(`original_${identifier}`, originalTerm);
+        this.state.update(`translated_${identifier}`, translatedTerm);
+        this.state.update(`position_${identifier}`, position);
+        this.state.update(`compoundIds_${identifier}`, []);
         return identifier;
     }
 
@@ -47,18 +186,18 @@ export class MappingManager {
         }
         this.compoundCounter++;
         const compoundId = `compound_${this.compoundCounter}`;
-        this.context.workspaceState.update(`compound_${compoundId}_original`, originalCompound);
-        this.context.workspaceState.update(`compound_${compoundId}_translated`, translatedCompound);
-        this.context.workspaceState.update(`compound_${compoundId}_parts`, partIds);
-        this.context.workspaceState.update(`compound_${compoundId}_position`, position);
-        this.context.workspaceState.update(`translated_to_compound_${translatedCompound}`, compoundId);
-        this.context.workspaceState.update('compoundCounter', this.compoundCounter);
+        this.state.update(`compound_${compoundId}_original`, originalCompound);
+        this.state.update(`compound_${compoundId}_translated`, translatedCompound);
+        this.state.update(`compound_${compoundId}_parts`, partIds);
+        this.state.update(`compound_${compoundId}_position`, position);
+        this.state.update(`translated_to_compound_${translatedCompound}`, compoundId);
+        this.state.update('compoundCounter', this.compoundCounter);
 
         for (const partId of partIds) {
-            const currentCompoundIds = (this.context.workspaceState.get(`compoundIds_${partId}`) as string[] | undefined) || [];
+            const currentCompoundIds = (this.state.get(`compoundIds_${partId}`) as string[] | undefined) || [];
             if (!currentCompoundIds.includes(compoundId)) {
                 currentCompoundIds.push(compoundId);
-                this.context.workspaceState.update(`compoundIds_${partId}`, currentCompoundIds);
+                this.state.update(`compoundIds_${partId}`, currentCompoundIds);
                 log(`Linked '${partId}' to compound '${compoundId}'`);
             }
         }
@@ -72,28 +211,28 @@ export class MappingManager {
         const allCompounds = this.getAllCompounds();
         const [coreTerm] = identifier.split('_');
 
-        const compoundIds = (this.context.workspaceState.get(`compoundIds_${identifier}`) as string[] | undefined) || [];
+        const compoundIds = (this.state.get(`compoundIds_${identifier}`) as string[] | undefined) || [];
         for (const compoundId of compoundIds) {
             const compound = allCompounds[compoundId];
             if (compound) {
                 const updatedParts = compound.parts.filter(part => part !== identifier);
-                this.context.workspaceState.update(`compound_${compoundId}_parts`, updatedParts);
+                this.state.update(`compound_${compoundId}_parts`, updatedParts);
                 log(`Updated compound '${compoundId}': removed part '${identifier}'`);
                 if (updatedParts.length === 0) {
-                    this.context.workspaceState.update(`compound_${compoundId}_original`, undefined);
-                    this.context.workspaceState.update(`compound_${compoundId}_translated`, undefined);
-                    this.context.workspaceState.update(`compound_${compoundId}_parts`, undefined);
-                    this.context.workspaceState.update(`compound_${compoundId}_position`, undefined);
-                    this.context.workspaceState.update(`translated_to_compound_${compound.translated}`, undefined);
+                    this.state.update(`compound_${compoundId}_original`, undefined);
+                    this.state.update(`compound_${compoundId}_translated`, undefined);
+                    this.state.update(`compound_${compoundId}_parts`, undefined);
+                    this.state.update(`compound_${compoundId}_position`, undefined);
+                    this.state.update(`translated_to_compound_${compound.translated}`, undefined);
                     log(`Removed empty compound '${compoundId}'`);
                 }
             }
         }
 
-        this.context.workspaceState.update(`original_${identifier}`, undefined);
-        this.context.workspaceState.update(`translated_${identifier}`, undefined);
-        this.context.workspaceState.update(`position_${identifier}`, undefined);
-        this.context.workspaceState.update(`compoundIds_${identifier}`, undefined);
+        this.state.update(`original_${identifier}`, undefined);
+        this.state.update(`translated_${identifier}`, undefined);
+        this.state.update(`position_${identifier}`, undefined);
+        this.state.update(`compoundIds_${identifier}`, undefined);
         log(`Removed term: ${identifier}`);
     }
 
@@ -103,53 +242,58 @@ export class MappingManager {
         if (!compound) return;
 
         for (const partId of compound.parts) {
-            const compoundIds = (this.context.workspaceState.get(`compoundIds_${partId}`) as string[] | undefined) || [];
+            const compoundIds = (this.state.get(`compoundIds_${partId}`) as string[] | undefined) || [];
             const updatedCompoundIds = compoundIds.filter(id => id !== compoundId);
-            this.context.workspaceState.update(`compoundIds_${partId}`, updatedCompoundIds);
+            this.state.update(`compoundIds_${partId}`, updatedCompoundIds);
             log(`Removed compound '${compoundId}' reference from part '${partId}'`);
         }
 
-        this.context.workspaceState.update(`compound_${compoundId}_original`, undefined);
-        this.context.workspaceState.update(`compound_${compoundId}_translated`, undefined);
-        this.context.workspaceState.update(`compound_${compoundId}_parts`, undefined);
-        this.context.workspaceState.update(`compound_${compoundId}_position`, undefined);
-        this.context.workspaceState.update(`translated_to_compound_${compound.translated}`, undefined);
+        this.state.update(`compound_${compoundId}_original`, undefined);
+        this.state.update(`compound_${compoundId}_translated`, undefined);
+        this.state.update(`compound_${compoundId}_parts`, undefined);
+        this.state.update(`compound_${compoundId}_position`, undefined);
+        this.state.update(`translated_to_compound_${compound.translated}`, undefined);
         log(`Removed compound '${compoundId}'`);
     }
 
+    setOriginal(identifier: string, originalTerm: string): void {
+        this.state.update(`original_${identifier}`, originalTerm);
+        log(`Remapped term: '${identifier}' -> '${originalTerm}'`);
+    }
+
     getTranslated(identifier: string): string | undefined {
-        return this.context.workspaceState.get(`translated_${identifier}`) as string | undefined;
+        return this.state.get(`translated_${identifier}`) as string | undefined;
     }
 
     getAllTerms(): { [key: string]: string } {
-        const allKeys = this.context.workspaceState.keys();
+        const allKeys = this.state.keys();
         const termKeys = allKeys.filter(key => key.startsWith('original_') && !key.includes('compound_'));
         const terms: { [key: string]: string } = {};
         for (const key of termKeys) {
             const identifier = key.replace('original_', '');
-            const original = this.context.workspaceState.get(key) as string | undefined;
+            const original = this.state.get(key) as string | undefined;
             if (original) terms[identifier] = original;
         }
         return terms;
     }
 
     getAllCompounds(): { [key: string]: { original: string; translated: string; parts: string[]; position: number } } {
-        const allKeys = this.context.workspaceState.keys();
+        const allKeys = this.state.keys();
         const compoundKeys = allKeys.filter(key => key.startsWith('compound_') && key.endsWith('_original'));
         const compounds: { [key: string]: { original: string; translated: string; parts: string[]; position: number } } = {};
         for (const key of compoundKeys) {
             const id = key.replace('compound_', '').replace('_original', '');
-            const original = this.context.workspaceState.get(`compound_${id}_original`) as string | undefined;
+            const original = this.state.get(`compound_${id}_original`) as string | undefined;
             if (original) {
-                const position = this.context.workspaceState.get(`compound_${id}_position`);
+                const position = this.state.get(`compound_${id}_position`);
                 if (typeof position !== 'number') {
                     log(`ERROR: Invalid position type for compound_${id}: ${typeof position}, value=${position}`);
                     continue; // Skip invalid compounds
                 }
                 compounds[id] = {
                     original,
-                    translated: this.context.workspaceState.get(`compound_${id}_translated`) as string,
-                    parts: (this.context.workspaceState.get(`compound_${id}_parts`) as string[] | undefined) || [],
+                    translated: this.state.get(`compound_${id}_translated`) as string,
+                    parts: (this.state.get(`compound_${id}_parts`) as string[] | undefined) || [],
                     position,
                 };
             }
@@ -158,7 +302,7 @@ export class MappingManager {
     }
 
     getPosition(identifier: string): number {
-        const position = this.context.workspaceState.get(`position_${identifier}`, 0);
+        const position = this.state.get(`position_${identifier}`, 0);
         if (typeof position !== 'number') {
             log(`ERROR: Invalid position type for '${identifier}': ${typeof position}, value=${position}`);
             return 0; // Fallback to 0
@@ -167,7 +311,7 @@ export class MappingManager {
     }
 
     getCompoundIds(identifier: string): string[] {
-        const compoundIds = this.context.workspaceState.get(`compoundIds_${identifier}`, []);
+        const compoundIds = this.state.get(`compoundIds_${identifier}`, []);
         if (!Array.isArray(compoundIds)) {
             log(`ERROR: Invalid compoundIds type for '${identifier}': ${typeof compoundIds}, value=${compoundIds}`);
             return [];
@@ -175,157 +319,236 @@ export class MappingManager {
         return compoundIds as string[];
     }
 
-    getCompoundByTranslated(translated: string, script: string): string | undefined {
-        const allCompounds = this.getAllCompounds();
-        for (const [id, compound] of Object.entries(allCompounds)) {
-            if (script === 'latin') {
-                if (compound.translated.toLowerCase() === translated.toLowerCase()) {
-                    return id;
-                }
-            } else {
-                if (compound.translated === translated) {
-                    return id;
-                }
+    /**
+     * The compound recorded at position wins, since different compounds can share a translation (`documentState`
+     * and `documentStates`); then one written exactly like this over one that only differs in case
+     * (mappingManager, MappingManager).
+     */
+    getCompoundByTranslated(translated: string, script: string, position?: number): string | undefined {
+        return this.compoundFinder(script)(translated, position);
+    }
+
+    /**
+     * getCompoundByTranslated for many words in a row, as when restoring a document: the compounds are read and
+     * indexed by their translation once, instead of scanning the whole map for every word.
+     */
+    compoundFinder(script: string): (translated: string, position?: number) => string | undefined {
+        const exact = new Map<string, string>();
+        const folded = new Map<string, string>();
+        const atPosition = new Map<number, string>();
+        const isCased = isCasedScript(script);
+        const fold = (text: string) => isCased ? text.toLowerCase() : text;
+        const compounds = this.getAllCompounds();
+        for (const [id, compound] of Object.entries(compounds)) {
+            atPosition.set(compound.position, id);
+            if (!exact.has(compound.translated)) {
+                // The compound last written with this translation owns it
+                const owner = this.state.get<string>(`translated_to_compound_${compound.translated}`);
+                exact.set(compound.translated, owner && compounds[owner]?.translated === compound.translated ? owner : id);
             }
+            const key = fold(compound.translated);
+            if (!folded.has(key)) folded.set(key, id);
         }
-        return undefined;
+        return (translated, position) => {
+            const here = position === undefined ? undefined : atPosition.get(position);
+            if (here && fold(compounds[here].translated) === fold(translated)) {
+                return here;
+            }
+            return exact.get(translated) ?? folded.get(fold(translated));
+        };
     }
 
     clearMap(): void {
-        const allKeys = this.context.workspaceState.keys();
+        const allKeys = this.state.keys();
         for (const key of allKeys) {
             if (key.startsWith('original_') || key.startsWith('translated_') || key.startsWith('position_') ||
                 key.startsWith('compound_') || key.startsWith('compoundIds_') || key.startsWith('translated_to_compound_')) {
-                this.context.workspaceState.update(key, undefined);
+                this.state.update(key, undefined);
             }
         }
         this.compoundCounter = 0;
-        this.context.workspaceState.update('compoundCounter', 0);
+        this.state.update('compoundCounter', 0);
         log('Cleared mapping state');
     }
 
-    rebuildMap(lastTranslated: string, original: string, current: string): void {
-        if (this.isRebuilding) {
-            log('Skipping rebuildMap: Another rebuild is in progress');
-            return;
+    exportSnapshot(): MappingSnapshot {
+        const terms: { [identifier: string]: TermMapping } = {};
+        for (const [id, original] of Object.entries(this.getAllTerms())) {
+            terms[id] = {
+                original,
+                translated: this.getTranslated(id) ?? original,
+                position: this.getPosition(id),
+                compoundIds: this.getCompoundIds(id),
+            };
         }
-        this.isRebuilding = true;
-
-        const script = detectScript(lastTranslated);
-        const lastTokens = lastTranslated.match(getTokenRegex(script)) || [];
-        const currTokens = current.match(getTokenRegex(script)) || [];
-        const origTokens = original.match(getTokenRegex('latin')) || [];
-
-        const lastPositions: { [token: string]: number[] } = {};
-        const currPositions: { [token: string]: number[] } = {};
-        const origPositions: { [token: string]: number[] } = {};
-
-        const assignPositions = (tokens: string[], positions: { [token: string]: number[] }, label: string) => {
-            let pos = 0;
-            for (const token of tokens) {
-                if (!token || typeof token !== 'string') {
-                    log(`Skipping invalid token in ${label}: ${JSON.stringify(token)}`);
-                    pos += 1; // Increment to avoid infinite loop
-                    continue;
-                }
-                if (!positions[token] || !Array.isArray(positions[token])) {
-                    positions[token] = [];
-                    log(`Initialized positions array for '${token}' (${label})`);
-                }
-                log(`Before push: positions['${token}'] type=${typeof positions[token]}, value=${JSON.stringify(positions[token])}`);
-                try {
-                    positions[token].push(pos);
-                    log(`${label} token: '${token}' at ${pos}`);
-                } catch (error) {
-                    log(`Error pushing position for '${token}' (${label}): ${error}`);
-                    positions[token] = []; // Reset to avoid further errors
-                }
-                pos += token.length;
-            }
-        };
+        return { terms, compounds: this.getAllCompounds(), compoundCounter: this.compoundCounter };
+    }
 
-        try {
-            log('Starting assignPositions for Last tokens');
-            assignPositions(lastTokens, lastPositions, 'Last');
-            log('Starting assignPositions for Current tokens');
-            assignPositions(currTokens, currPositions, 'Current');
-            log('Starting assignPositions for Original tokens');
-            assignPositions(origTokens, origPositions, 'Original');
-        } catch (error) {
-            log(`Error in assignPositions: ${error}`);
-            this.isRebuilding = false;
-            return;
+    importSnapshot(snapshot: MappingSnapshot): void {
+        this.clearMap();
+        for (const [id, term] of Object.entries(snapshot.terms)) {
+            this.state.update(`original_${id}`, term.original);
+            this.state.update(`translated_${id}`, term.translated);
+            this.state.update(`position_${id}`, term.position);
+            this.state.update(`compoundIds_${id}`, term.compoundIds);
         }
-
-        const allTerms = this.getAllTerms();
-        const allCompounds = this.getAllCompounds();
-        const newTerms: { [key: string]: { original: string; translated: string; position: number; compoundIds: string[] } } = {};
-        const newCompounds: { [key: string]: { original: string; translated: string; parts: string[]; position: number } } = {};
-
-        // Log workspace state for debugging
-        const positionKeys = this.context.workspaceState.keys().filter(key => key.startsWith('position_'));
-        log(`Position keys in workspaceState: ${JSON.stringify(positionKeys)}`);
-        for (const key of positionKeys) {
-            const value = this.context.workspaceState.get(key);
-            log(`Workspace state ${key}: type=${typeof value}, value=${JSON.stringify(value)}`);
+        for (const [id, compound] of Object.entries(snapshot.compounds)) {
+            this.state.update(`compound_${id}_original`, compound.original);
+            this.state.update(`compound_${id}_translated`, compound.translated);
+            this.state.update(`compound_${id}_parts`, compound.parts);
+            this.state.update(`compound_${id}_position`, compound.position);
+            this.state.update(`translated_to_compound_${compound.translated}`, id);
         }
+        this.compoundCounter = snapshot.compoundCounter;
+        this.state.update('compoundCounter', this.compoundCounter);
+        log(`Imported mapping: Terms=${Object.keys(snapshot.terms).length}, Compounds=${Object.keys(snapshot.compounds).length}`);
+    }
+
+    /**
+     * Carries the mapping from the translated text it describes over to an edited version of that text. Every term and
+     * compound stays anchored to its word through a token diff, so insertions, deletions and moves elsewhere never hand
+     * it to another word, and identifiers of words the edit touched are renumbered for the occurrence they now are.
+     * Mappings of changed or deleted words are dropped. `ranges` are the translated ranges of the edited text. Given
+     * the edit, only the lines it touched are diffed.
+     */
+    remap(before: string, after: string, ranges: TranslatedRange[] | null = null, edit?: EditSpan): void {
+        if (before === after) return;
+        const span = lineSpan(before, after, edit);
+        const shift = after.length - before.length;
+        const tokenRegex = getTokenRegex('latin');
+        const beforeTokens = before.slice(span.start, span.beforeEnd).match(tokenRegex) || [];
+        const afterTokens = after.slice(span.start, span.afterEnd).match(tokenRegex) || [];
+        const matches = matchTokens(beforeTokens, afterTokens);
+        const beforeStarts = tokenStarts(beforeTokens);
+        const afterStarts = tokenStarts(afterTokens);
+        let beforeLower: string | undefined;
+        let afterLower: string | undefined;
+        const lowerBefore = () => beforeLower ??= before.toLowerCase();
+        const lowerAfter = () => afterLower ??= after.toLowerCase();
+
+        // Where the word at `offset` went, provided all of it came through the diff unchanged
+        const moveWord = (offset: number, length: number): number | undefined => {
+            if (offset + length <= span.start) return offset;
+            if (offset >= span.beforeEnd) return offset + shift;
+            const move = (at: number) => {
+                const i = tokenIndexAt(beforeStarts, at - span.start);
+                return i >= 0 && matches[i] >= 0 ? afterStarts[matches[i]] + at - beforeStarts[i] : undefined;
+            };
+            const start = move(offset);
+            return start !== undefined && move(offset + length - 1) === start + length - 1 ? start : undefined;
+        };
 
-        for (const [id, compound] of Object.entries(allCompounds)) {
-            const translated = compound.translated;
-            const currPosList = currPositions[translated] || [];
-            if (currPosList.length > 0) {
-                newCompounds[id] = compound;
-                this.context.workspaceState.update(`translated_to_compound_${translated}`, id);
-                log(`Kept compound: ${id} -> ${compound.original} at ${compound.position} (translated '${translated}' found at ${currPosList})`);
-            } else {
-                log(`Pruned compound: ${id} -> ${compound.original} (translated '${translated}' not found)`);
+        // Only words found in a token the edit changed can now be a different occurrence
+        const matchedAfter = new Set(matches);
+        const changedTokens = [
+            ...beforeTokens.filter((_, i) => matches[i] < 0),
+            ...afterTokens.filter((_, j) => !matchedAfter.has(j)),
+        ].map(token => token.toLowerCase()).filter(token => /[\p{L}\p{M}\p{N}]/u.test(token));
+        const occurrences = new Map<string, number[]>();
+        const occurrenceNumber = (word: string, offset: number): number => {
+            let offsets = occurrences.get(word);
+            if (!offsets) {
+                offsets = occurrenceOffsets(lowerAfter(), word).filter(at => !ranges || ranges.some(range => at >= range.start && at < range.end));
+                occurrences.set(word, offsets);
             }
-        }
+            return offsets.filter(at => at < offset).length + 1;
+        };
 
-        for (const [id, original] of Object.entries(allTerms)) {
-            const translated = this.context.workspaceState.get(`translated_${id}`) as string | undefined;
-            if (!translated) {
-                log(`Skipping term: ${id} -> ${original} (no translated term found)`);
-                continue;
+        const terms = Object.entries(this.getAllTerms());
+        const renamed = new Map<string, string>();
+        // Compound ids are only read for terms that move to another identifier; the others keep theirs
+        const kept = new Map<string, Omit<TermMapping, 'compoundIds'> & { stored: number; compoundIds?: string[] }>();
+        for (const [id, original] of terms) {
+            const translated = this.getTranslated(id) ?? original;
+            const parsed = /^(.+)_(\d+)(_type)?$/.exec(id);
+            const stored = this.getPosition(id);
+            let anchor: number | undefined = stored;
+            if (before.slice(anchor, anchor + translated.length).toLowerCase() !== translated.toLowerCase()) {
+                // Positions of maps made before they were anchored to the translated text; the identifier still says which occurrence it is
+                anchor = parsed ? occurrenceOffsets(lowerBefore(), parsed[1].toLowerCase())[Number(parsed[2]) - 1] : undefined;
             }
-            const position = this.getPosition(id);
-            const compoundIds = this.getCompoundIds(id);
-            const currPosList = currPositions[translated] || [];
-            const lastPosList = lastPositions[translated] || [];
-
-            const isPartOfCompound = compoundIds.some(cid => newCompounds[cid] !== undefined);
-            if (isPartOfCompound && !currPosList.includes(position)) {
-                log(`Skipped term: ${id} -> ${original} (part of compound, not standalone at ${position})`);
+            const position = anchor === undefined ? undefined : moveWord(anchor, translated.length);
+            if (position === undefined) {
+                log(`Remap dropped term '${id}' -> '${original}' (word changed or deleted)`);
                 continue;
             }
-
-            if (currPosList.length > 0 || lastPosList.includes(position)) {
-                newTerms[id] = { original, translated, position, compoundIds };
-                log(`Kept term: ${id} -> ${original} at ${position}`);
-            } else {
-                log(`Pruned term: ${id} -> ${original} (not found in current or last text)`);
+            let newId = id;
+            if (parsed && changedTokens.some(token => countMatches(token, parsed[1].toLowerCase()) > 0)) {
+                newId = `${parsed[1]}_${occurrenceNumber(parsed[1].toLowerCase(), position)}${parsed[3] ?? ''}`;
             }
+            renamed.set(id, newId);
+            kept.set(newId, { original, translated, position, stored, compoundIds: newId === id ? undefined : this.getCompoundIds(id) });
         }
 
-        this.clearMap();
-        for (const [id, { original, translated, position, compoundIds }] of Object.entries(newTerms)) {
-            this.context.workspaceState.update(`original_${id}`, original);
-            this.context.workspaceState.update(`translated_${id}`, translated);
-            this.context.workspaceState.update(`position_${id}`, position);
-            this.context.workspaceState.update(`compoundIds_${id}`, compoundIds);
+        const compounds = Object.entries(this.getAllCompounds());
+        const keptCompounds = new Map<string, CompoundMapping>();
+        const changedCompounds = new Set<string>();
+        for (const [id, compound] of compounds) {
+            const word = compound.translated.toLowerCase();
+            const anchor = before.slice(compound.position, compound.position + word.length).toLowerCase() === word
+                ? compound.position
+                : lowerBefore().indexOf(word);
+            const position = anchor < 0 ? undefined : moveWord(anchor, word.length);
+            if (position === undefined) {
+                log(`Remap dropped compound '${id}' -> '${compound.original}' (word changed or deleted)`);
+                continue;
+            }
+            const parts = compound.parts.map(part => renamed.get(part)).filter((part): part is string => part !== undefined);
+            keptCompounds.set(id, { ...compound, parts, position });
+            if (position !== compound.position || parts.some((part, i) => part !== compound.parts[i]) || parts.length !== compound.parts.length) {
+                changedCompounds.add(id);
+            }
         }
 
-        for (const [id, compound] of Object.entries(newCompounds)) {
-            this.context.workspaceState.update(`compound_${id}_original`, compound.original);
-            this.context.workspaceState.update(`compound_${id}_translated`, compound.translated);
-            this.context.workspaceState.update(`compound_${id}_parts`, compound.parts);
-            this.context.workspaceState.update(`compound_${id}_position`, compound.position);
-            this.context.workspaceState.update(`translated_to_compound_${compound.translated}`, id);
+        // Old keys go first, so a term renumbered onto the identifier of another one is not overwritten by its removal
+        for (const [id] of terms) {
+            if (renamed.get(id) !== id) this.deleteTerm(id);
         }
+        for (const [id, compound] of compounds) {
+            if (!keptCompounds.has(id)) this.deleteCompound(id, compound.translated);
+        }
+        // Most of the map only moves, so only what changed is written
+        const compoundsDropped = keptCompounds.size < compounds.length;
+        for (const [id, term] of kept) {
+            const moved = renamed.get(id) === id;
+            if (!moved) {
+                this.state.update(`original_${id}`, term.original);
+                this.state.update(`translated_${id}`, term.translated);
+            }
+            if (!moved || term.stored !== term.position) {
+                this.state.update(`position_${id}`, term.position);
+            }
+            if (moved && !compoundsDropped) continue;
+            const compoundIds = term.compoundIds ?? this.getCompoundIds(id);
+            const keptIds = compoundIds.filter(compoundId => keptCompounds.has(compoundId));
+            if (!moved || keptIds.length !== compoundIds.length) {
+                this.state.update(`compoundIds_${id}`, keptIds);
+            }
+        }
+        for (const [id, compound] of keptCompounds) {
+            if (!changedCompounds.has(id)) continue;
+            this.state.update(`compound_${id}_parts`, compound.parts);
+            this.state.update(`compound_${id}_position`, compound.position);
+            this.state.update(`translated_to_compound_${compound.translated}`, id);
+        }
+        log(`Remapped: kept ${kept.size} of ${terms.length} terms and ${keptCompounds.size} of ${compounds.length} compounds`);
+    }
 
-        this.context.workspaceState.update('compoundCounter', this.compoundCounter);
-        log(`Map rebuilt: Terms=${Object.keys(newTerms).length}, Compounds=${Object.keys(newCompounds).length}`);
-        this.isRebuilding = false;
+    private deleteTerm(identifier: string): void {
+        this.state.update(`original_${identifier}`, undefined);
+        this.state.update(`translated_${identifier}`, undefined);
+        this.state.update(`position_${identifier}`, undefined);
+        this.state.update(`compoundIds_${identifier}`, undefined);
+    }
+
+    private deleteCompound(compoundId: string, translated: string): void {
+        this.state.update(`compound_${compoundId}_original`, undefined);
+        this.state.update(`compound_${compoundId}_translated`, undefined);
+        this.state.update(`compound_${compoundId}_parts`, undefined);
+        this.state.update(`compound_${compoundId}_position`, undefined);
+        if (this.state.get(`translated_to_compound_${translated}`) === compoundId) {
+            this.state.update(`translated_to_compound_${translated}`, undefined);
+        }
     }
 
     private generateIdentifier(term: string): string {
@@ -339,4 +562,71 @@ export class MappingManager {
         }
         return `${term}_${counter + 1}`;
     }
-}
\ No newline at end of file
+}
+
+// The edit widened to whole lines; the whole text when there is no edit or it doesn't describe how before became after
+function lineSpan(before: string, after: string, edit?: EditSpan): EditSpan {
+    const whole = { start: 0, beforeEnd: before.length, afterEnd: after.length };
+    if (!edit || edit.afterEnd - edit.beforeEnd !== after.length - before.length) {
+        return whole;
+    }
+    const start = edit.start === 0 ? 0 : before.lastIndexOf('\n', edit.start - 1) + 1;
+    const lineEnd = before.indexOf('\n', edit.beforeEnd);
+    const beforeEnd = lineEnd < 0 ? before.length : lineEnd;
+    const afterEnd = beforeEnd + after.length - before.length;
+    if (!after.startsWith(before.slice(0, start)) || !after.endsWith(before.slice(beforeEnd))) {
+        return whole;
+    }
+    return { start, beforeEnd, afterEnd };
+}
+
+function tokenStarts(tokens: string[]): number[] {
+    const starts: number[] = [];
+    let offset = 0;
+    for (const token of tokens) {
+        starts.push(offset);
+        offset += token.length;
+    }
+    return starts;
+}
+
+// Index of the token the offset falls in
+function tokenIndexAt(starts: number[], offset: number): number {
+    let low = 0;
+    let high = starts.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const middle = (low + high) >> 1;
+        if (starts[middle] <= offset) {
+            found = middle;
+            low = middle + 1;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return found;
+}
+
+// Start of every non-overlapping occurrence, the ones countMatches counts
+function occurrenceOffsets(text: string, word: string): number[] {
+    const offsets: number[] = [];
+    if (!word) return offsets;
+    for (let at = text.indexOf(word); at !== -1; at = text.indexOf(word, at + word.length)) {
+        offsets.push(at);
+    }
+    return offsets;
+}
+
+/**
+ * Mapping identifier of the word at an offset of a translated document, numbered the way translateToOriginal
+ * numbers it (only the translated ranges count in a partial translation). Returns the identifier that exists in the map (the `_type` one first after ':' or '->'),
+ * or the one a new mapping for this occurrence should use.
+ */
+export function findOccurrenceIdentifier(mappingManager: MappingManager, text: string, offset: number, word: string, script: string, ranges: TranslatedRange[] | null = null): string {
+    const idBase = isCasedScript(script) ? word.toLowerCase() : word;
+    const regular = `${idBase}_${countMatches(occurrenceText(text, ranges, offset).toLowerCase(), idBase.toLowerCase()) + 1}`;
+    const typed = `${regular}_type`;
+    const candidates = /:\s*$|->\s*$/.test(text.substring(Math.max(0, offset - 10), offset)) ? [typed, regular] : [regular, typed];
+    const allTerms = mappingManager.getAllTerms();
+    return candidates.find(identifier => allTerms[identifier] !== undefined) ?? regular;
+}
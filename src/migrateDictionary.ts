@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './utils';
+import { detectScript, Script, RTL_SCRIPTS } from './translation';
+import { readDictionaryFile, migrateDictionaryFile, formatDictionaryFile, DictionaryFile } from './dictionary';
+import { WritableLayer, getLayerFolder, listDictionaryLayers } from './dictionaryLayers';
+
+interface MigrationItem extends vscode.QuickPickItem {
+    code: string;
+    dictPath: string;
+}
+
+// Most common script among the dictionary's terms
+function inferScript(file: DictionaryFile): Script {
+    const counts = new Map<Script, number>();
+    for (const term of Object.keys(file.entries)) {
+        const script = detectScript(term);
+        counts.set(script, (counts.get(script) ?? 0) + 1);
+    }
+    let best: Script = 'latin';
+    counts.forEach((count, script) => {
+        if (count > (counts.get(best) ?? 0)) {
+            best = script;
+        }
+    });
+    return best;
+}
+
+export function registerMigrateDictionaryCommand(context: vscode.ExtensionContext) {
+    const disposable = vscode.commands.registerCommand('vscode-translator.migrateDictionary', async () => {
+        // Bundled dictionaries ship as v2; only the user and workspace layers can hold older files
+        const resource = vscode.window.activeTextEditor?.document.uri;
+        const candidates: MigrationItem[] = [];
+        listDictionaryLayers(context, resource).forEach((layers, code) => {
+            for (const layer of layers.filter((layer): layer is WritableLayer => layer !== 'bundled')) {
+                const dictPath = path.join(getLayerFolder(context, layer, resource)!, `${code}.json`);
+                if (readDictionaryFile(dictPath, code).schemaVersion === 1) {
+                    candidates.push({ label: code, description: `${layer} dictionary`, detail: dictPath, code, dictPath });
+                }
+            }
+        });
+        if (candidates.length === 0) {
+            vscode.window.showInformationMessage('All dictionaries already use the v2 schema.');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(candidates, {
+            placeHolder: 'Select the v1 dictionaries to migrate to the v2 schema',
+            canPickMany: true,
+            ignoreFocusOut: true,
+        });
+        if (!selected || selected.length === 0) return;
+
+        for (const { code, dictPath } of selected) {
+            const name = await vscode.window.showInputBox({
+                prompt: `English name of the "${code}" dictionary's language`,
+                placeHolder: 'e.g., German',
+                ignoreFocusOut: true,
+            });
+            if (name === undefined) {
+                log(`Dictionary migration cancelled at ${code}`);
+                return;
+            }
+
+            const file = readDictionaryFile(dictPath, code);
+            const script = inferScript(file);
+            const migrated = migrateDictionaryFile(file, {
+                code,
+                name: name.trim() || undefined,
+                script,
+                direction: RTL_SCRIPTS.includes(script) ? 'rtl' : 'ltr',
+                version: '1.0.0',
+            });
+            try {
+                fs.writeFileSync(dictPath, formatDictionaryFile(migrated), 'utf8');
+                log(`Migrated ${dictPath} to schema v2 (script: ${script})`);
+            } catch (error) {
+                log(`Error migrating ${dictPath}: ${error}`);
+                vscode.window.showErrorMessage(`Could not migrate the ${code} dictionary: ${error}`);
+                return;
+            }
+        }
+        vscode.window.showInformationMessage(`Migrated ${selected.map(item => `${item.code} (${item.description})`).join(', ')} to the v2 dictionary schema.`);
+    });
+
+    context.subscriptions.push(disposable);
+    log('Migrate dictionary command registered successfully');
+}
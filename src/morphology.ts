@@ -0,0 +1,133 @@
+// English inflections: the dictionary form behind an inflected word (`users` → user), and the other way round
+
+export type Inflection = 'plural' | 'past' | 'gerund';
+
+export const INFLECTIONS: Inflection[] = ['plural', 'past', 'gerund'];
+
+export interface Lemma {
+    lemma: string;
+    inflection: Inflection;
+}
+
+// Forms the suffix rules get wrong; past participles count as past
+const IRREGULAR: { [form: string]: Lemma } = {
+    children: { lemma: 'child', inflection: 'plural' },
+    people: { lemma: 'person', inflection: 'plural' },
+    indices: { lemma: 'index', inflection: 'plural' },
+    matrices: { lemma: 'matrix', inflection: 'plural' },
+    vertices: { lemma: 'vertex', inflection: 'plural' },
+    analyses: { lemma: 'analysis', inflection: 'plural' },
+    ran: { lemma: 'run', inflection: 'past' },
+    began: { lemma: 'begin', inflection: 'past' },
+    begun: { lemma: 'begin', inflection: 'past' },
+    built: { lemma: 'build', inflection: 'past' },
+    chose: { lemma: 'choose', inflection: 'past' },
+    chosen: { lemma: 'choose', inflection: 'past' },
+    found: { lemma: 'find', inflection: 'past' },
+    gave: { lemma: 'give', inflection: 'past' },
+    given: { lemma: 'give', inflection: 'past' },
+    got: { lemma: 'get', inflection: 'past' },
+    gotten: { lemma: 'get', inflection: 'past' },
+    held: { lemma: 'hold', inflection: 'past' },
+    kept: { lemma: 'keep', inflection: 'past' },
+    knew: { lemma: 'know', inflection: 'past' },
+    known: { lemma: 'know', inflection: 'past' },
+    made: { lemma: 'make', inflection: 'past' },
+    sent: { lemma: 'send', inflection: 'past' },
+    shown: { lemma: 'show', inflection: 'past' },
+    took: { lemma: 'take', inflection: 'past' },
+    taken: { lemma: 'take', inflection: 'past' },
+    threw: { lemma: 'throw', inflection: 'past' },
+    thrown: { lemma: 'throw', inflection: 'past' },
+    wrote: { lemma: 'write', inflection: 'past' },
+    written: { lemma: 'write', inflection: 'past' },
+};
+
+// lemma -> inflection -> the irregular form written for it; the first listed form wins (ran before a participle)
+const IRREGULAR_FORMS = new Map<string, Map<Inflection, string>>();
+for (const [form, { lemma, inflection }] of Object.entries(IRREGULAR)) {
+    const forms = IRREGULAR_FORMS.get(lemma) ?? new Map<Inflection, string>();
+    if (!forms.has(inflection)) forms.set(inflection, form);
+    IRREGULAR_FORMS.set(lemma, forms);
+}
+
+const VOWEL = /[aeiouy]/;
+// Ends in consonant, vowel, consonant, the pattern that doubles its last letter (stop → stopped) or lost an e (note → noted)
+const CVC = /[^aeiou][aeiou][^aeiouwxy]$/;
+
+/**
+ * Possible dictionary forms of an English word in any case, most likely first; the caller takes the first
+ * one its dictionary has. Plurals and third persons (`items`, `loads`, `copies`, `boxes`), past tenses (`loaded`,
+ * `saved`, `stopped`, `copied`) and -ing forms (`loading`, `making`, `running`), plus a few irregular ones.
+ * Other words shorter than four letters and stems without a vowel (`str` in string) are never inflections.
+ */
+export function englishLemmas(word: string): Lemma[] {
+    const lower = word.toLowerCase();
+    // Own keys only, so `constructor` isn't taken for an irregular form
+    if (Object.prototype.hasOwnProperty.call(IRREGULAR, lower)) {
+        return [IRREGULAR[lower]];
+    }
+    if (!/^[a-z]{4,}$/.test(lower)) {
+        return [];
+    }
+
+    const lemmas: Lemma[] = [];
+    const add = (lemma: string, inflection: Inflection) => {
+        if (lemma.length >= 3 && VOWEL.test(lemma) && !lemmas.some(found => found.lemma === lemma)) {
+            lemmas.push({ lemma, inflection });
+        }
+    };
+    // Stem of a suffix: with the e it dropped first when the stem looks like it lost one, then doubled consonants undone
+    const addStem = (stem: string, inflection: Inflection) => {
+        if (CVC.test(stem)) add(stem + 'e', inflection);
+        add(stem, inflection);
+        if (/([^aeiouls])\1$/.test(stem)) add(stem.slice(0, -1), inflection);
+        add(stem + 'e', inflection);
+    };
+
+    if (lower.endsWith('ies')) {
+        add(lower.slice(0, -3) + 'y', 'plural');
+    } else if (lower.endsWith('es') && /(?:s|x|z|ch|sh)es$/.test(lower)) {
+        add(lower.slice(0, -1), 'plural');
+        add(lower.slice(0, -2), 'plural');
+    } else if (lower.endsWith('s') && !/(?:ss|us|is)$/.test(lower)) {
+        add(lower.slice(0, -1), 'plural');
+    } else if (lower.endsWith('ied')) {
+        add(lower.slice(0, -3) + 'y', 'past');
+    } else if (lower.endsWith('ed') && !lower.endsWith('eed')) {
+        addStem(lower.slice(0, -2), 'past');
+    } else if (lower.endsWith('ing')) {
+        addStem(lower.slice(0, -3), 'gerund');
+    }
+    return lemmas;
+}
+
+/**
+ * The inflection of a single English word, used to give a target form its English meaning (`user` → users,
+ * `load` → loaded, `run` → running). Anything that isn't a plain lowercase word is returned as it is.
+ */
+export function inflectEnglish(word: string, inflection: Inflection): string {
+    if (!/^[a-z]+$/.test(word)) {
+        return word;
+    }
+    const irregular = IRREGULAR_FORMS.get(word)?.get(inflection);
+    if (irregular) {
+        return irregular;
+    }
+    // One vowel before the last consonant, as in stop and run, doubles it; open and visit don't
+    const doubles = /^[^aeiou]*[aeiou][^aeiouwxy]$/.test(word);
+    switch (inflection) {
+        case 'plural':
+            if (/(?:s|x|z|ch|sh)$/.test(word)) return word + 'es';
+            if (/[^aeiou]y$/.test(word)) return word.slice(0, -1) + 'ies';
+            return word + 's';
+        case 'past':
+            if (word.endsWith('e')) return word + 'd';
+            if (/[^aeiou]y$/.test(word)) return word.slice(0, -1) + 'ied';
+            return doubles ? word + word.slice(-1) + 'ed' : word + 'ed';
+        case 'gerund':
+            if (word.endsWith('ie')) return word.slice(0, -2) + 'ying';
+            if (/[^e]e$/.test(word)) return word.slice(0, -1) + 'ing';
+            return doubles ? word + word.slice(-1) + 'ing' : word + 'ing';
+    }
+}
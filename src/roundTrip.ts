@@ -0,0 +1,235 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { log } from './utils';
+import { TranslatorState } from './extension';
+import { MappingManager, MemoryMemento } from './mappings';
+import { TokenClass } from './lexer';
+import { getDictionaryMetadata } from './dictionary';
+import { TranslatedRange } from './translatedRanges';
+import {
+    translateToTarget, translateToOriginal, loadDictionary, detectScript, getTokenRegex, getTokenizerLanguage,
+    getTranslatedClasses, currentDictionary, setCurrentDictionary, addCapitalizationVariants
+} from './translation';
+
+export const ROUND_TRIP_SCHEME = 'nlt-roundtrip';
+
+// A word of the English source that comes back different after translating there and back
+export interface RoundTripMismatch {
+    offset: number;
+    original: string;
+    translated: string;
+    restored: string;
+}
+
+export interface RoundTripResult {
+    language: string;
+    translated: string;
+    restored: string;
+    mismatches: RoundTripMismatch[];
+}
+
+export function isRoundTripCheckEnabled(): boolean {
+    return vscode.workspace.getConfiguration('vscode-translator').get<boolean>('verifyRoundTrip', false);
+}
+
+/**
+ * Translates the text to the language and back against a scratch map, without touching the document,
+ * its mapping or the dictionaries on disk.
+ */
+export async function checkRoundTrip(
+    text: string,
+    language: string,
+    document: vscode.TextDocument,
+    context: vscode.ExtensionContext,
+    classes: TokenClass[] = getTranslatedClasses(),
+    ranges?: TranslatedRange[]
+): Promise<RoundTripResult> {
+    const scratchMap = new MappingManager(new MemoryMemento());
+    const dictionary = loadDictionary(context, language, document.languageId, document.uri);
+    // The toggle learns the capitalization variants of the text first; here they only go into the scratch copy
+    addCapitalizationVariants(ranges ? ranges.map(range => text.substring(range.start, range.end)).join('\n') : text, dictionary);
+    const languageId = getTokenizerLanguage(document);
+    // The segmenters read the active dictionary, so the check sees the same one the toggle would
+    const previousDictionary = currentDictionary;
+    setCurrentDictionary(dictionary);
+    try {
+        // Copied, since translating moves the ranges onto the translated text
+        const scratchRanges = ranges?.map(range => ({ ...range }));
+        const translated = await translateToTarget(text, dictionary, scratchMap, language, () => {}, languageId, classes, undefined, scratchRanges);
+        const script = getDictionaryMetadata(language)?.script ?? detectScript(translated);
+        const restored = await translateToOriginal(translated, scratchMap, dictionary, () => {}, script, languageId, classes, scratchRanges);
+        const mismatches = restored === text ? [] : findMismatches(text, translated, restored);
+        log(`Round-trip through ${language}: ${mismatches.length} mismatch(es)`);
+        return { language, translated, restored, mismatches };
+    } finally {
+        setCurrentDictionary(previousDictionary);
+    }
+}
+
+function findMismatches(original: string, translated: string, restored: string): RoundTripMismatch[] {
+    const originalTokens = [...original.matchAll(getTokenRegex('latin'))];
+    const translatedTokens = [...translated.matchAll(getTokenRegex('latin'))];
+    const restoredTokens = [...restored.matchAll(getTokenRegex('latin'))];
+    // Words are translated token by token, so the translation of a token is the one at the same index, unless a
+    // translation brought in tokens of its own
+    const pairedTokens = translatedTokens.length === originalTokens.length;
+    const translatedSpan = (start: number, end: number, originalText: string) =>
+        pairedTokens ? translatedTokens.slice(start, end).map(token => token[0]).join('') : originalText;
+    const mismatch = (offset: number, originalText: string, translatedText: string, restoredText: string): RoundTripMismatch =>
+        ({ offset, original: originalText, translated: translatedText, restored: restoredText });
+
+    if (originalTokens.length === restoredTokens.length) {
+        return originalTokens
+            .map((token, i) => token[0] === restoredTokens[i][0]
+                ? undefined
+                : mismatch(token.index!, token[0], translatedSpan(i, i + 1, token[0]), restoredTokens[i][0]))
+            .filter((item): item is RoundTripMismatch => item !== undefined);
+    }
+
+    // A word came back with a different number of tokens, so report the whole span between the common prefix and suffix
+    let start = 0;
+    while (start < originalTokens.length && start < restoredTokens.length && originalTokens[start][0] === restoredTokens[start][0]) {
+        start++;
+    }
+    let end = 0;
+    while (end < originalTokens.length - start && end < restoredTokens.length - start
+        && originalTokens[originalTokens.length - 1 - end][0] === restoredTokens[restoredTokens.length - 1 - end][0]) {
+        end++;
+    }
+    const join = (tokens: RegExpMatchArray[]) => tokens.map(token => token[0]).join('');
+    const offset = start < originalTokens.length ? originalTokens[start].index! : original.length;
+    const originalText = join(originalTokens.slice(start, originalTokens.length - end));
+    return [mismatch(
+        offset,
+        originalText,
+        translatedSpan(start, originalTokens.length - end, originalText),
+        join(restoredTokens.slice(start, restoredTokens.length - end))
+    )];
+}
+
+function describeMismatch(document: vscode.TextDocument, mismatch: RoundTripMismatch): string {
+    const position = document.positionAt(mismatch.offset);
+    return `Ln ${position.line + 1}, Col ${position.character + 1}: '${mismatch.original}' → '${mismatch.translated}' → '${mismatch.restored}'`;
+}
+
+class RoundTripContentProvider implements vscode.TextDocumentContentProvider {
+    private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private contents = new Map<string, string>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    async showDiff(document: vscode.TextDocument, result: RoundTripResult): Promise<void> {
+        const restoredUri = vscode.Uri.from({ scheme: ROUND_TRIP_SCHEME, path: document.uri.path, query: result.language });
+        this.contents.set(restoredUri.toString(), result.restored);
+        this.changeEmitter.fire(restoredUri);
+        const title = `${path.posix.basename(document.uri.path)} ↔ round-trip through ${result.language}`;
+        await vscode.commands.executeCommand('vscode.diff', document.uri, restoredUri, title);
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
+
+let diffProvider: RoundTripContentProvider | undefined;
+
+/**
+ * Pre-apply check used by toggleTranslation when `vscode-translator.verifyRoundTrip` is on.
+ * Resolves to false when the user cancels, before anything in the editor has changed.
+ */
+export async function confirmRoundTrip(
+    text: string,
+    language: string,
+    document: vscode.TextDocument,
+    context: vscode.ExtensionContext,
+    classes: TokenClass[],
+    ranges?: TranslatedRange[]
+): Promise<boolean> {
+    const result = await checkRoundTrip(text, language, document, context, classes, ranges);
+    const count = result.mismatches.length;
+    if (count === 0) {
+        return true;
+    }
+
+    const shown = result.mismatches.slice(0, 5).map(mismatch => describeMismatch(document, mismatch));
+    if (count > shown.length) {
+        shown.push(`…and ${count - shown.length} more`);
+    }
+    const choice = await vscode.window.showWarningMessage(
+        `${count} word(s) would not restore exactly after translating to ${language}.`,
+        { modal: true, detail: shown.join('\n') },
+        'Translate Anyway',
+        'Open Diff'
+    );
+    if (choice === 'Translate Anyway') {
+        return true;
+    }
+    if (choice === 'Open Diff') {
+        await diffProvider?.showDiff(document, result);
+    }
+    log(`Translation of ${document.uri.toString()} to ${language} cancelled after the round-trip check`);
+    return false;
+}
+
+export function registerRoundTripCommand(context: vscode.ExtensionContext, state: TranslatorState) {
+    diffProvider = new RoundTripContentProvider();
+    const provider = diffProvider;
+
+    const verifyDisposable = vscode.commands.registerCommand('vscode-translator.verifyRoundTrip', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor found!');
+            return;
+        }
+        if (state.documentState(editor.document).isTargetLanguage) {
+            vscode.window.showErrorMessage('Toggle the document back to English before verifying the round-trip.');
+            return;
+        }
+        const language = state.selectedLanguage();
+        if (!language || language === 'en') {
+            vscode.window.showErrorMessage('Please select a target language first.');
+            return;
+        }
+
+        const document = editor.document;
+        const name = path.posix.basename(document.uri.path);
+        const result = await checkRoundTrip(document.getText(), language, document, context);
+        if (result.mismatches.length === 0) {
+            vscode.window.showInformationMessage(`${name} restores exactly after a round-trip through ${language}.`);
+            return;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `${result.mismatches.length} word(s) in ${name} would not restore exactly after a round-trip through ${language}.`,
+            'Show Words',
+            'Open Diff'
+        );
+        if (choice === 'Open Diff') {
+            await provider.showDiff(document, result);
+        } else if (choice === 'Show Words') {
+            const items = result.mismatches.map(mismatch => ({
+                label: `${mismatch.original} → ${mismatch.restored}`,
+                description: `via '${mismatch.translated}'`,
+                detail: describeMismatch(document, mismatch),
+                mismatch,
+            }));
+            const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Words that change after translating and back' });
+            if (picked) {
+                const start = document.positionAt(picked.mismatch.offset);
+                const end = document.positionAt(picked.mismatch.offset + picked.mismatch.original.length);
+                editor.selection = new vscode.Selection(start, end);
+                editor.revealRange(new vscode.Range(start, end), vscode.TextEditorRevealType.InCenter);
+            }
+        }
+    });
+
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(ROUND_TRIP_SCHEME, provider),
+        verifyDisposable,
+        provider
+    );
+    log('Verify round-trip command registered successfully');
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './utils';
+import { DocumentTranslationState } from './documentState';
+import { loadDictionary, stripBidiIsolation } from './translation';
+import { SIDECAR_FOLDER, SIDECAR_FORMAT_VERSION, SidecarFile, dictionaryVersion, hashText, isSidecarStale, readSidecar, writeSidecarFile } from './sidecarFile';
+
+export { SIDECAR_FOLDER, SIDECAR_FORMAT_VERSION, SidecarFile, dictionaryVersion, hashText } from './sidecarFile';
+
+export function isSidecarEnabled(): boolean {
+    return vscode.workspace.getConfiguration('vscode-translator').get<boolean>('sidecarMappings', false);
+}
+
+// .nlt/<path relative to the workspace folder>.map.json, or next to the file outside a workspace
+export function getSidecarPath(uri: vscode.Uri): string | undefined {
+    if (uri.scheme !== 'file') {
+        return undefined;
+    }
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (folder) {
+        const relative = path.relative(folder.uri.fsPath, uri.fsPath);
+        return path.join(folder.uri.fsPath, SIDECAR_FOLDER, `${relative}.map.json`);
+    }
+    return path.join(path.dirname(uri.fsPath), SIDECAR_FOLDER, `${path.basename(uri.fsPath)}.map.json`);
+}
+
+export function writeSidecar(document: vscode.TextDocument, state: DocumentTranslationState): void {
+    const sidecarPath = getSidecarPath(document.uri);
+    if (!sidecarPath || !state.isTargetLanguage) {
+        return;
+    }
+    const folder = vscode.workspace.getWorkspaceFolder(document.uri);
+    const text = document.getText();
+    // The source hash only stays meaningful while the translated text is untouched
+    const previous = readSidecar(sidecarPath);
+    let sourceHash = '';
+    if (state.lastOriginalText !== null && stripBidiIsolation(text) === state.lastTranslatedText) {
+        sourceHash = hashText(state.lastOriginalText);
+    } else if (previous && previous.translatedHash === hashText(text)) {
+        sourceHash = previous.sourceHash;
+    }
+    const sidecar: SidecarFile = {
+        formatVersion: SIDECAR_FORMAT_VERSION,
+        file: folder ? path.relative(folder.uri.fsPath, document.uri.fsPath).split(path.sep).join('/') : path.basename(document.uri.fsPath),
+        language: state.language,
+        mode: state.translationMode,
+        classes: state.translatedClasses ?? undefined,
+        tokenizerLanguage: state.tokenizerLanguage ?? undefined,
+        dictionaryVersion: dictionaryVersion(state.dictionary, state.language),
+        sourceHash,
+        translatedHash: hashText(text),
+        ranges: state.translatedRanges ?? undefined,
+        ...state.mappingManager.exportSnapshot(),
+    };
+    try {
+        writeSidecarFile(sidecarPath, sidecar);
+        log(`Wrote mapping sidecar ${sidecarPath}`);
+    } catch (error) {
+        log(`Error writing sidecar ${sidecarPath}: ${error}`);
+        vscode.window.showWarningMessage(`Could not write translation map ${sidecarPath}: ${error}`);
+    }
+}
+
+export function deleteSidecar(document: vscode.TextDocument): void {
+    const sidecarPath = getSidecarPath(document.uri);
+    if (!sidecarPath || !fs.existsSync(sidecarPath)) {
+        return;
+    }
+    try {
+        fs.unlinkSync(sidecarPath);
+        log(`Removed mapping sidecar ${sidecarPath}`);
+    } catch (error) {
+        log(`Error removing sidecar ${sidecarPath}: ${error}`);
+        vscode.window.showWarningMessage(`Could not remove translation map ${sidecarPath}: ${error}`);
+    }
+}
+
+/**
+ * Restores a translated document's mapping and toggle state from its sidecar.
+ * Returns true when the document was put back into target-language mode.
+ */
+export async function loadSidecar(document: vscode.TextDocument, state: DocumentTranslationState, context: vscode.ExtensionContext): Promise<boolean> {
+    const sidecarPath = getSidecarPath(document.uri);
+    const sidecar = sidecarPath ? readSidecar(sidecarPath) : undefined;
+    if (!sidecarPath || !sidecar) {
+        return false;
+    }
+
+    const text = document.getText();
+    const unchanged = !isSidecarStale(sidecar, text);
+    if (state.isTargetLanguage && unchanged && state.lastTranslatedText === stripBidiIsolation(text)) {
+        // workspaceState already matches the sidecar
+        return true;
+    }
+    // A file changed outside the editor (or restored to English) may no longer be the translation the map describes
+    if (!unchanged && !(await confirmStaleSidecar(document, sidecarPath, sidecar))) {
+        return false;
+    }
+
+    state.mappingManager.importSnapshot(sidecar);
+    state.language = sidecar.language;
+    state.translationMode = sidecar.mode;
+    state.translatedClasses = sidecar.classes ?? null;
+    state.tokenizerLanguage = sidecar.tokenizerLanguage ?? null;
+    state.translatedRanges = sidecar.ranges ?? null;
+    state.rangesVersion = document.version;
+    state.isTargetLanguage = true;
+    state.dictionary = loadDictionary(context, sidecar.language, document.languageId, document.uri);
+    // Only an untouched file can resume the last-translated snapshot used to rebuild the map after edits
+    state.lastTranslatedText = unchanged ? stripBidiIsolation(text) : null;
+    state.rtlIsolated = stripBidiIsolation(text) !== text;
+    state.lastOriginalText = null;
+    state.lastDocumentText = text;
+
+    const currentVersion = dictionaryVersion(state.dictionary, sidecar.language);
+    if (currentVersion !== sidecar.dictionaryVersion) {
+        log(`Dictionary version of ${sidecar.language} is ${currentVersion}, sidecar was written with ${sidecar.dictionaryVersion}`);
+        vscode.window.showWarningMessage(`The ${sidecar.language} dictionary changed since ${sidecar.file} was translated; check the result after toggling back to English.`);
+    }
+    log(`Loaded mapping sidecar ${sidecarPath} (${sidecar.language}, unchanged=${unchanged})`);
+    return true;
+}
+
+// Asks before using the map of a file that changed since it was written; dismissing ignores the map this time
+async function confirmStaleSidecar(document: vscode.TextDocument, sidecarPath: string, sidecar: SidecarFile): Promise<boolean> {
+    const choice = await vscode.window.showWarningMessage(
+        `${sidecar.file} changed since its ${sidecar.language} translation map was written. Treat it as translated anyway?`,
+        'Use Map', 'Delete Map'
+    );
+    if (choice === 'Delete Map') {
+        deleteSidecar(document);
+    }
+    log(`Sidecar ${sidecarPath} does not match ${document.uri.toString()}: ${choice ?? 'ignored'}`);
+    return choice === 'Use Map';
+}
+
+// A translated file that was not edited since the sidecar was written must restore to exactly the original source
+export function verifyRestoredSource(document: vscode.TextDocument, translatedText: string, restoredText: string): void {
+    const sidecarPath = getSidecarPath(document.uri);
+    const sidecar = sidecarPath ? readSidecar(sidecarPath) : undefined;
+    if (!sidecar || !sidecar.sourceHash || isSidecarStale(sidecar, translatedText)) {
+        return;
+    }
+    if (sidecar.sourceHash !== hashText(restoredText)) {
+        log(`Restored text of ${sidecar.file} differs from the source the sidecar was written for`);
+        vscode.window.showWarningMessage(`${sidecar.file} did not restore to the exact English source it was translated from.`);
+    }
+}
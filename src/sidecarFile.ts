@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { log } from './utils';
+import { MappingSnapshot } from './mappings';
+import { Dictionary, TranslationMode } from './engine';
+import { getDictionaryMetadata } from './dictionary';
+import { TranslatedRange } from './translatedRanges';
+import { TokenClass } from './lexer';
+
+// The sidecar map format, shared by the extension and the CLI so either can restore what the other translated
+
+export const SIDECAR_FOLDER = '.nlt';
+export const SIDECAR_FORMAT_VERSION = 1;
+
+export interface SidecarFile extends MappingSnapshot {
+    formatVersion: number;
+    file: string;
+    language: string;
+    mode: TranslationMode;
+    // Token classes and tokenizer language the translation used, so restoring doesn't depend on the settings of the day
+    classes?: TokenClass[];
+    tokenizerLanguage?: string;
+    dictionaryVersion: string;
+    // Hash of the English text the translation was made from; checked after restoring
+    sourceHash: string;
+    // Hash of the translated text as last written, so an unchanged file can resume its snapshots
+    translatedHash: string;
+    // Translated parts of a partial translation; absent when the whole file is translated
+    ranges?: TranslatedRange[];
+}
+
+export function hashText(text: string): string {
+    return crypto.createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+// The v2 version field plus a content hash, so local additions to a released dictionary are noticed too
+export function dictionaryVersion(dictionary: Dictionary, language: string): string {
+    const hash = hashText(JSON.stringify(dictionary)).substring(0, 12);
+    const version = getDictionaryMetadata(language)?.version;
+    return version ? `${version}+${hash}` : hash;
+}
+
+// True when the translated text changed since the map was written, so its offsets may no longer fit
+export function isSidecarStale(sidecar: SidecarFile, translatedText: string): boolean {
+    return hashText(translatedText) !== sidecar.translatedHash;
+}
+
+export function writeSidecarFile(sidecarPath: string, sidecar: SidecarFile): void {
+    fs.mkdirSync(path.dirname(path.resolve(sidecarPath)), { recursive: true });
+    fs.writeFileSync(sidecarPath, JSON.stringify(sidecar, null, 2), 'utf8');
+}
+
+export function readSidecar(sidecarPath: string): SidecarFile | undefined {
+    if (!fs.existsSync(sidecarPath)) {
+        return undefined;
+    }
+    try {
+        const sidecar = JSON.parse(fs.readFileSync(sidecarPath, 'utf8')) as SidecarFile;
+        if (sidecar.formatVersion !== SIDECAR_FORMAT_VERSION || !sidecar.terms || !sidecar.compounds) {
+            log(`Ignoring sidecar ${sidecarPath}: unsupported format`);
+            return undefined;
+        }
+        return sidecar;
+    } catch (error) {
+        log(`Error reading sidecar ${sidecarPath}: ${error}`);
+        return undefined;
+    }
+}
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BatchEnvironment, BatchRun, RESTORED_SUFFIX, restoreBatch, translateBatch } from '../batchFiles';
+import { MANIFEST_FILE, readManifest, writeManifest } from '../batchManifest';
+import { readDictionary } from '../dictionary';
+import { DEFAULT_TRANSLATED_CLASSES } from '../lexer';
+import { setLogSink } from '../utils';
+import { SOURCE, bundledDictionaryPath, useTempFolder, writeTree } from './fixtures';
+
+const PYTHON_SOURCE = '# load the user list\ndef load_users():\n    return []\n';
+const NOTES = 'load the user list before the items\n';
+
+// Bundled dictionaries and default settings, as the extension has them without user or workspace layers
+const environment: BatchEnvironment = {
+    dictionaryFor: (language, languageId) => readDictionary([bundledDictionaryPath(language)], language, languageId),
+    tokenizerLanguageFor: languageId => languageId,
+    modeClasses: mode => mode === 'comments' ? ['comment'] : DEFAULT_TRANSLATED_CLASSES,
+};
+
+suite('batchFiles', () => {
+    const tempFolder = useTempFolder('nlt-batch-');
+    let root: string;
+    let run: BatchRun;
+
+    suiteSetup(() => setLogSink(() => {}));
+
+    setup(() => {
+        root = tempFolder();
+        run = { language: 'es', mode: 'full', root, outputFolder: path.join(root, 'translated', 'es') };
+        writeTree(root, {
+            'src/app.ts': SOURCE,
+            'src/lib/users.py': PYTHON_SOURCE,
+            'notes.txt': NOTES,
+            // Output of an earlier run
+            'translated/es/src/app.ts': 'const usuarios = cargar();\n',
+        });
+    });
+
+    // Every file below the folder, as the workspace file search would find them
+    function listFiles(folder: string): string[] {
+        return fs.readdirSync(folder, { withFileTypes: true }).flatMap(entry =>
+            entry.isDirectory() ? listFiles(path.join(folder, entry.name)) : [path.join(folder, entry.name)]);
+    }
+
+    test('mirrors the files into the output folder and restores them byte for byte', async () => {
+        const lines: string[] = [];
+        const result = await translateBatch(listFiles(root), run, environment, line => lines.push(line));
+        // The earlier output is left out rather than translated again
+        assert.deepStrictEqual(result.files.map(entry => entry.file), ['notes.txt', 'src/app.ts', 'src/lib/users.py']);
+        assert.deepStrictEqual(result.failed, []);
+        assert.strictEqual(lines.length, 3);
+        const translated = fs.readFileSync(path.join(run.outputFolder, 'src', 'app.ts'), 'utf8');
+        assert.notStrictEqual(translated, SOURCE);
+
+        const manifest = readManifest(result.manifestPath);
+        assert.strictEqual(result.manifestPath, path.join(run.outputFolder, MANIFEST_FILE));
+        assert.strictEqual(manifest.sourceRoot, '../..');
+        assert.deepStrictEqual(manifest.files, result.files);
+        assert.strictEqual(manifest.skipped, undefined);
+
+        const target = path.join(root, 'restored');
+        const restored = await restoreBatch(result.manifestPath, target, environment, () => {});
+        assert.deepStrictEqual(restored, { restored: ['notes.txt', 'src/app.ts', 'src/lib/users.py'], inexact: [], failed: [] });
+        for (const file of restored.restored) {
+            assert.ok(fs.readFileSync(path.join(target, file)).equals(fs.readFileSync(path.join(root, file))), file);
+        }
+    });
+
+    test('skips files without a lexer in comment-only runs and lists them in the manifest', async () => {
+        const result = await translateBatch(listFiles(root), { ...run, mode: 'comments' }, environment, () => {});
+        assert.deepStrictEqual(result.files.map(entry => entry.file), ['src/app.ts', 'src/lib/users.py']);
+        assert.deepStrictEqual(result.skipped, [{ file: 'notes.txt', reason: "no comments to translate in 'plaintext' files" }]);
+        assert.deepStrictEqual(readManifest(result.manifestPath).skipped, result.skipped);
+        assert.strictEqual(fs.existsSync(path.join(run.outputFolder, 'notes.txt')), false);
+        // Only the comment changed
+        const translated = fs.readFileSync(path.join(run.outputFolder, 'src', 'lib', 'users.py'), 'utf8');
+        assert.strictEqual(translated.substring(translated.indexOf('\n')), PYTHON_SOURCE.substring(PYTHON_SOURCE.indexOf('\n')));
+    });
+
+    test('only expects unedited copies to restore exactly and reports missing ones as failed', async () => {
+        const result = await translateBatch(listFiles(root), run, environment, () => {});
+        const manifest = readManifest(result.manifestPath);
+        // An unedited copy whose source hash does not match, an edited copy and a copy that is gone
+        manifest.files.find(entry => entry.file === 'src/app.ts')!.sourceHash = 'not the source';
+        fs.appendFileSync(path.join(run.outputFolder, 'src', 'lib', 'users.py'), '# más\n');
+        fs.unlinkSync(path.join(run.outputFolder, 'notes.txt'));
+        writeManifest(result.manifestPath, manifest);
+
+        const restored = await restoreBatch(result.manifestPath, path.join(root, 'restored'), environment, () => {});
+        assert.deepStrictEqual(restored.restored, ['src/app.ts', 'src/lib/users.py']);
+        assert.deepStrictEqual(restored.inexact, ['src/app.ts']);
+        assert.deepStrictEqual(restored.failed.map(failure => failure.file), ['notes.txt']);
+    });
+
+    test('writes an inexact restore into the source folder beside the original instead of over it', async () => {
+        const result = await translateBatch(listFiles(root), run, environment, () => {});
+        const manifest = readManifest(result.manifestPath);
+        manifest.files.find(entry => entry.file === 'src/app.ts')!.sourceHash = 'not the source';
+        writeManifest(result.manifestPath, manifest);
+        fs.writeFileSync(path.join(root, 'src', 'app.ts'), 'the English original\n');
+
+        const restored = await restoreBatch(result.manifestPath, root, environment, () => {});
+        assert.deepStrictEqual(restored.inexact, ['src/app.ts']);
+        assert.strictEqual(fs.readFileSync(path.join(root, 'src', 'app.ts'), 'utf8'), 'the English original\n');
+        assert.strictEqual(fs.readFileSync(path.join(root, 'src', `app.ts${RESTORED_SUFFIX}`), 'utf8'), SOURCE);
+        assert.strictEqual(fs.readFileSync(path.join(root, 'notes.txt'), 'utf8'), NOTES);
+    });
+
+    test('rejects manifest entries that leave the output or the target folder', async () => {
+        const result = await translateBatch(listFiles(root), run, environment, () => {});
+        const manifest = readManifest(result.manifestPath);
+        const entry = manifest.files.find(candidate => candidate.file === 'notes.txt')!;
+        manifest.files = [{ ...entry, file: '../../notes.txt' }, { ...entry, file: path.join(root, 'notes.txt') }];
+        writeManifest(result.manifestPath, manifest);
+
+        const target = path.join(root, 'restored', 'here');
+        const restored = await restoreBatch(result.manifestPath, target, environment, () => {});
+        assert.deepStrictEqual(restored.restored, []);
+        assert.strictEqual(restored.failed.length, 2);
+        assert.ok(restored.failed.every(failure => /leaves the output or target folder/.test(failure.error)), JSON.stringify(restored.failed));
+        assert.strictEqual(fs.existsSync(path.join(root, 'restored')), false);
+        assert.strictEqual(fs.readFileSync(path.join(root, 'notes.txt'), 'utf8'), NOTES);
+    });
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BatchManifest, MANIFEST_FILE, MANIFEST_FORMAT_VERSION, readManifest, writeManifest } from '../batchManifest';
+import { useTempFolder } from './fixtures';
+
+// Written by a batch run; see batchFiles.test.ts for manifests of real runs
+const MANIFEST: BatchManifest = {
+    formatVersion: MANIFEST_FORMAT_VERSION,
+    language: 'es',
+    mode: 'full',
+    dictionaryVersion: '1.0.0+000000000000',
+    sourceRoot: '../..',
+    files: [],
+};
+
+suite('batchManifest', () => {
+    const tempFolder = useTempFolder('nlt-manifest-');
+    let manifestPath: string;
+
+    setup(() => {
+        manifestPath = path.join(tempFolder(), 'translated', 'es', MANIFEST_FILE);
+    });
+
+    test('reads back the manifest it wrote', () => {
+        writeManifest(manifestPath, MANIFEST);
+        assert.deepStrictEqual(readManifest(manifestPath), MANIFEST);
+    });
+
+    test('rejects manifests of another format version and files that are no manifest', () => {
+        writeManifest(manifestPath, { ...MANIFEST, formatVersion: MANIFEST_FORMAT_VERSION + 1 });
+        assert.throws(() => readManifest(manifestPath), /unsupported manifest format/);
+
+        fs.writeFileSync(manifestPath, JSON.stringify({ formatVersion: MANIFEST_FORMAT_VERSION, language: 'es' }));
+        assert.throws(() => readManifest(manifestPath), /unsupported manifest format/);
+        fs.writeFileSync(manifestPath, '{ not json');
+        assert.throws(() => readManifest(manifestPath));
+    });
+});
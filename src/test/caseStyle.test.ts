@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { applyCaseStyle, detectCaseStyle } from '../caseStyle';
+
+suite('caseStyle', () => {
+    test('detects the case of a word', () => {
+        assert.strictEqual(detectCaseStyle('user'), 'lower');
+        assert.strictEqual(detectCaseStyle('USER'), 'upper');
+        assert.strictEqual(detectCaseStyle('User'), 'title');
+        assert.strictEqual(detectCaseStyle('userName'), 'camel');
+        assert.strictEqual(detectCaseStyle('UserName'), 'pascal');
+    });
+
+    test('applies a case to a single word', () => {
+        assert.strictEqual(applyCaseStyle('usuario', 'upper'), 'USUARIO');
+        assert.strictEqual(applyCaseStyle('usuario', 'title'), 'Usuario');
+        assert.strictEqual(applyCaseStyle('USUARIO', 'lower'), 'usuario');
+    });
+
+    test('joins the words of a phrase in camel and pascal case', () => {
+        assert.strictEqual(applyCaseStyle('nombre usuario', 'camel', 'es', true), 'nombreUsuario');
+        assert.strictEqual(applyCaseStyle('nombre usuario', 'pascal', 'es', true), 'NombreUsuario');
+    });
+
+    test('follows the casing rules of the target language', () => {
+        assert.strictEqual(applyCaseStyle('istanbul', 'upper', 'tr'), 'İSTANBUL');
+        assert.strictEqual(applyCaseStyle('straße', 'upper', 'de'), 'STRAẞE');
+        assert.strictEqual(applyCaseStyle('größe', 'pascal', 'de', true), 'Größe');
+    });
+});
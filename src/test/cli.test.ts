@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { main } from '../cli';
+import { readSidecar } from '../sidecarFile';
+import { setLogSink } from '../utils';
+import { useTempFolder } from './fixtures';
+
+const SOURCE = [
+    '// Load the user list, one user at a time',
+    "import { readFile } from 'fs';",
+    'const MAX_USERS = 10;',
+    'function loadUsers(userName: string) {',
+    "    return readFile(userName, 'utf8');",
+    '}',
+    '',
+].join('\n');
+
+suite('cli', () => {
+    const tempFolder = useTempFolder('nlt-cli-');
+    let folder: string;
+    let sourcePath: string;
+    let messages: string[];
+    const consoleError = console.error;
+    const consoleLog = console.log;
+
+    suiteSetup(() => setLogSink(() => {}));
+
+    setup(() => {
+        folder = tempFolder();
+        sourcePath = path.join(folder, 'app.ts');
+        fs.writeFileSync(sourcePath, SOURCE);
+        // Usage and progress messages are checked instead of printed
+        messages = [];
+        console.error = (...args: unknown[]) => messages.push(args.join(' '));
+        console.log = (...args: unknown[]) => messages.push(args.join(' '));
+    });
+
+    teardown(() => {
+        console.error = consoleError;
+        console.log = consoleLog;
+    });
+
+    test('restores a translated file to its source byte for byte through the sidecar map', async () => {
+        const translatedPath = path.join(folder, 'app.es.ts');
+        assert.strictEqual(await main(['translate', sourcePath, '--to', 'es', '--out', translatedPath]), 0);
+        const translated = fs.readFileSync(translatedPath, 'utf8');
+        assert.notStrictEqual(translated, SOURCE);
+
+        // The map belongs to the translated file, where `nlt restore` and the extension look for it
+        const sidecar = readSidecar(path.join(folder, '.nlt', 'app.es.ts.map.json'));
+        assert.ok(sidecar);
+        assert.strictEqual(sidecar.language, 'es');
+        assert.strictEqual(fs.existsSync(path.join(folder, '.nlt', 'app.ts.map.json')), false);
+
+        const restoredPath = path.join(folder, 'restored', 'app.ts');
+        assert.strictEqual(await main(['restore', translatedPath, '--out', restoredPath]), 0);
+        assert.ok(fs.readFileSync(restoredPath).equals(fs.readFileSync(sourcePath)));
+        assert.ok(!messages.some(message => message.startsWith('Warning')), messages.join('\n'));
+    });
+
+    test('writes and reads the map given with --map, in comment-only mode too', async () => {
+        const translatedPath = path.join(folder, 'app.es.ts');
+        const mapPath = path.join(folder, 'maps', 'app.map.json');
+        assert.strictEqual(await main(['translate', sourcePath, '--to=es', '--mode', 'comments', '--map', mapPath, '--out', translatedPath]), 0);
+        assert.strictEqual(readSidecar(mapPath)?.mode, 'comments');
+        assert.strictEqual(fs.existsSync(path.join(folder, '.nlt')), false);
+        // Only the comment changed
+        const translated = fs.readFileSync(translatedPath, 'utf8');
+        assert.strictEqual(translated.substring(translated.indexOf('\n')), SOURCE.substring(SOURCE.indexOf('\n')));
+
+        const restoredPath = path.join(folder, 'app.restored.ts');
+        assert.strictEqual(await main(['restore', translatedPath, '--map', mapPath, '--out', restoredPath]), 0);
+        assert.strictEqual(fs.readFileSync(restoredPath, 'utf8'), SOURCE);
+    });
+
+    test('exits with 2 on usage errors and unknown commands', async () => {
+        const outPath = path.join(folder, 'app.es.ts');
+        assert.strictEqual(await main([]), 2);
+        assert.strictEqual(await main(['publish', sourcePath]), 2);
+        assert.strictEqual(await main(['translate', sourcePath, '--to', 'es', '--out', outPath, '--colour']), 2);
+        assert.strictEqual(await main(['translate', sourcePath, '--to']), 2);
+        assert.strictEqual(await main(['translate', sourcePath, '--out', outPath]), 2);
+        assert.strictEqual(await main(['translate', sourcePath, '--to', 'es', '--mode', 'strings', '--out', outPath]), 2);
+        assert.strictEqual(await main(['translate', sourcePath, sourcePath, '--to', 'es', '--out', outPath]), 2);
+        // Stdout has no file to keep a sidecar next to
+        assert.strictEqual(await main(['translate', sourcePath, '--to', 'es']), 2);
+        assert.strictEqual(fs.existsSync(path.join(folder, '.nlt')), false);
+        assert.strictEqual(fs.existsSync(outPath), false);
+        assert.strictEqual(await main(['--help']), 0);
+    });
+
+    test('exits with 1 when the dictionary, the input or the map is missing', async () => {
+        const outPath = path.join(folder, 'app.es.ts');
+        assert.strictEqual(await main(['translate', sourcePath, '--to', 'xx', '--out', outPath]), 1);
+        assert.ok(messages.some(message => message.includes('No xx dictionary found')), messages.join('\n'));
+        assert.strictEqual(await main(['translate', sourcePath, '--to', 'es', '--out', outPath, '--dictionary', path.join(folder, 'missing.json')]), 1);
+        assert.strictEqual(await main(['translate', path.join(folder, 'missing.ts'), '--to', 'es', '--out', outPath]), 1);
+        assert.strictEqual(fs.existsSync(outPath), false);
+
+        fs.writeFileSync(outPath, SOURCE);
+        assert.strictEqual(await main(['restore', outPath, '--out', path.join(folder, 'restored.ts')]), 1);
+        assert.ok(messages.some(message => message.includes('No mapping found')), messages.join('\n'));
+        assert.strictEqual(await main(['restore', outPath, '--map', path.join(folder, 'missing.map.json')]), 1);
+    });
+});
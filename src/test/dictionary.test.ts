@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getDictionaryIndex } from '../indexes';
+import { DictionaryMetadata, readDictionary, readDictionaryFile, readDictionaryLayers, writeDictionaryTerms, writeDictionaryVariants } from '../dictionary';
+
+const METADATA: DictionaryMetadata = { code: 'es', name: 'Spanish', script: 'latin', direction: 'ltr' };
+
+suite('dictionary layers', () => {
+    let folder: string;
+    let bundled: string;
+    let user: string;
+    let workspace: string;
+
+    const writeLayer = (layerPath: string, entries: object, name?: string) => fs.writeFileSync(layerPath, JSON.stringify({
+        schemaVersion: 2,
+        language: { code: 'es', direction: 'ltr', ...(name ? { name } : {}) },
+        entries,
+    }));
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'nlt-layers-'));
+        bundled = path.join(folder, 'bundled.json');
+        user = path.join(folder, 'user.json');
+        workspace = path.join(folder, 'workspace.json');
+        writeLayer(bundled, { usuario: ['user'], archivo: ['file'], carpeta: ['folder'] }, 'Spanish');
+    });
+
+    teardown(() => fs.rmSync(folder, { recursive: true, force: true }));
+
+    test('lets the workspace layer override the user layer override the bundled one', () => {
+        writeLayer(user, { usuario: ['account'], archivo: ['document'] }, 'Español (user)');
+        writeLayer(workspace, { usuario: ['member'] });
+        const merged = readDictionaryLayers([bundled, user, workspace], 'es');
+        assert.deepStrictEqual(merged.entries.usuario.en, ['member']);
+        assert.deepStrictEqual(merged.entries.archivo.en, ['document']);
+        assert.deepStrictEqual(merged.entries.carpeta.en, ['folder']);
+        assert.strictEqual(merged.metadata.name, 'Español (user)');
+    });
+
+    test('skips layer files that do not exist', () => {
+        assert.deepStrictEqual(readDictionary([bundled, user, workspace], 'es'), { usuario: ['user'], archivo: ['file'], carpeta: ['folder'] });
+    });
+
+    test('adds a variants-only entry to the entry of the layers below', () => {
+        writeDictionaryVariants(user, 'es', { usuario: ['User', 'USER'], desconocido: ['Unknown'] }, METADATA);
+        assert.deepStrictEqual(readDictionaryFile(user, 'es').entries.usuario, { en: [], variants: ['User', 'USER'] });
+        const dictionary = readDictionary([bundled, user], 'es');
+        assert.deepStrictEqual(dictionary.usuario, ['user', 'User', 'USER']);
+        // Nothing below to extend
+        assert.strictEqual(dictionary.desconocido, undefined);
+
+        // A full entry above replaces the entry with its variants
+        writeLayer(workspace, { usuario: ['member'] });
+        assert.deepStrictEqual(readDictionary([bundled, user, workspace], 'es').usuario, ['member']);
+    });
+
+    test('adds variants to the meanings of a term the layer defines, and meanings replace variants', () => {
+        writeLayer(user, { archivo: ['document'] });
+        writeDictionaryVariants(user, 'es', { archivo: ['Document'], usuario: ['User'] }, METADATA);
+        assert.deepStrictEqual(readDictionaryFile(user, 'es').entries.archivo, { en: ['document', 'Document'] });
+
+        writeDictionaryTerms(user, 'es', { usuario: { en: ['account'] } }, METADATA);
+        assert.deepStrictEqual(readDictionaryFile(user, 'es').entries.usuario, { en: ['account'] });
+    });
+
+    test('hides a term of the layers below behind an empty entry', () => {
+        writeDictionaryTerms(user, 'es', { archivo: { en: [] } }, METADATA);
+        writeDictionaryVariants(user, 'es', { archivo: ['File'] }, METADATA);
+        assert.deepStrictEqual(readDictionaryFile(user, 'es').entries.archivo, { en: [] });
+        assert.strictEqual(readDictionary([bundled, user], 'es').archivo, undefined);
+
+        // A higher layer can bring it back
+        writeLayer(workspace, { archivo: ['record'] });
+        assert.deepStrictEqual(readDictionary([bundled, user, workspace], 'es').archivo, ['record']);
+    });
+
+    test('keeps the forms of the layers a dictionary was built from after another folder loads the language', () => {
+        writeLayer(workspace, { usuario: { en: ['user'], forms: { plural: 'usuarios' } } });
+        const dictionary = readDictionary([bundled, workspace], 'es');
+        readDictionary([bundled], 'es');
+        assert.deepStrictEqual(getDictionaryIndex(dictionary).entryOf('usuario')?.forms, { plural: 'usuarios' });
+    });
+});
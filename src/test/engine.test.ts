@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TokenClass } from '../lexer';
+import { getDictionaryMetadata, readDictionary } from '../dictionary';
+import { addCapitalizationVariants, setCurrentDictionary, translateToOriginal, translateToTarget } from '../engine';
+import { MappingManager, MemoryMemento } from '../mappings';
+import { setLogSink } from '../utils';
+
+const srcFolder = path.join(__dirname, '..', '..', 'src');
+
+const SAMPLE = [
+    "import { readFile } from 'fs';",
+    '',
+    '// Running the User list, one user at a time',
+    'const MAX_USERS = 10;',
+    'function loadItems(user_name: string) {',
+    '    const users = readFile(user_name);',
+    "    if (users.length > MAX_USERS) { return 'too many users'; }",
+    '    return users.map(user => user.items);',
+    '}',
+].join('\n');
+
+const CLASS_SETS: TokenClass[][] = [
+    ['keyword'],
+    ['comment'],
+    ['keyword', 'identifier', 'comment'],
+    ['keyword', 'identifier', 'comment', 'string', 'member', 'importPath'],
+];
+
+// Translates and restores the text the way the CLI does, learning the text's capitalization variants first if asked
+async function translate(text: string, language: string, classes?: TokenClass[], learnVariants = false) {
+    const dictionary = readDictionary([path.join(srcFolder, 'languages', `${language}.json`)], language, 'typescript');
+    setCurrentDictionary(dictionary);
+    if (learnVariants) {
+        addCapitalizationVariants(text, dictionary);
+    }
+    const mappingManager = new MappingManager(new MemoryMemento());
+    const translated = await translateToTarget(text, dictionary, mappingManager, language, () => {}, 'typescript', classes);
+    const restored = await translateToOriginal(
+        translated, mappingManager, dictionary, () => {}, getDictionaryMetadata(language)!.script, 'typescript', classes);
+    return { translated, restored };
+}
+
+suite('engine', () => {
+    suiteSetup(() => setLogSink(() => {}));
+
+    test('translates inflected words through their dictionary form', async () => {
+        const text = 'const users = loadItems(); // running the list\nreturn items;';
+        const { translated, restored } = await translate(text, 'es');
+        assert.strictEqual(translated, 'constante usuarios = cargarÍtems(); // ejecutando the lista\nretornar ítems;');
+        assert.strictEqual(restored, text);
+    });
+
+    test('restores compounds that translate alike by where they stand', async () => {
+        const text = 'const documentStates = new Map();\nfunction documentState(document) { return documentStates.get(document); }';
+        const { translated, restored } = await translate(text, 'de');
+        assert.ok(translated.startsWith('konstant dokumentZustand = neu Map();'), translated);
+        assert.strictEqual(restored, text);
+    });
+
+    test('folds identifiers by the target script when the source has a few Japanese characters', async () => {
+        const text = '// a kana like か marks Japanese\nconst USER_SCRIPTS = 1;';
+        const { translated, restored } = await translate(text, 'es', undefined, true);
+        assert.strictEqual(translated, '// a kana like か marks Japanese\nconstante USUARIO_SCRIPT = 1;');
+        assert.strictEqual(restored, text);
+    });
+
+    test('restores the case dictionary words were written in', async () => {
+        const text = 'const User = USER_NAME; // Running the User list\nreturn users;';
+        const { translated, restored } = await translate(text, 'es');
+        assert.strictEqual(translated, 'constante Usuario = USUARIO_NAME; // Ejecutando the Usuario lista\nretornar usuarios;');
+        assert.strictEqual(restored, text);
+    });
+
+    test('only translates the chosen classes', async () => {
+        const { translated } = await translate('const users = 1; // the user', 'es', ['comment']);
+        assert.strictEqual(translated, 'const users = 1; // the usuario');
+    });
+
+    for (const language of ['es', 'de', 'ja', 'ru']) {
+        for (const classes of CLASS_SETS) {
+            test(`restores a ${language} translation of ${classes.join(', ')} exactly`, async () => {
+                const { translated, restored } = await translate(SAMPLE, language, classes);
+                assert.notStrictEqual(translated, SAMPLE);
+                assert.strictEqual(restored, SAMPLE);
+            });
+        }
+    }
+
+    test('restores the translation of a whole source file exactly', async function () {
+        this.timeout(20000);
+        const text = fs.readFileSync(path.join(srcFolder, 'mappings.ts'), 'utf8');
+        for (const language of ['es', 'de', 'ja']) {
+            const { restored } = await translate(text, language);
+            assert.strictEqual(restored, text, `${language} differs`);
+        }
+    });
+});
@@ -0,0 +1,30 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Fixtures of the tests that translate files on disk
+
+export const SOURCE = '// load the user list\nconst users = load();\n';
+
+export function bundledDictionaryPath(language: string): string {
+    return path.join(__dirname, '..', '..', 'src', 'languages', `${language}.json`);
+}
+
+// A fresh temp folder for every test of the calling suite, removed after it; call before the suite's own setup
+export function useTempFolder(prefix: string): () => string {
+    let folder = '';
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+    });
+    teardown(() => fs.rmSync(folder, { recursive: true, force: true }));
+    return () => folder;
+}
+
+// Writes each text to its '/'-separated path below the folder
+export function writeTree(folder: string, files: { [file: string]: string }): void {
+    for (const [file, text] of Object.entries(files)) {
+        const filePath = path.join(folder, ...file.split('/'));
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, text);
+    }
+}
@@ -0,0 +1,104 @@
+import * as assert from 'assert';
+import { GLOSSARY_EXTENSIONS, GlossaryEntries, formatFromPath, formatGlossary, parseGlossary } from '../glossaryFormats';
+
+const SPANISH = { code: 'es', names: ['Spanish', 'Español'] };
+
+const ENTRIES: GlossaryEntries = {
+    usuario: ['user', 'account holder'],
+    'a, b': ['comma "quoted"'],
+    '<etiqueta> & más': ['tag & more'],
+    'ruta\\archivo': ['file path'],
+};
+
+const reasons = (issues: { reason: string }[]) => issues.map(issue => issue.reason);
+
+suite('glossaryFormats', () => {
+    test('tells the format from the file extension', () => {
+        assert.strictEqual(formatFromPath('/tmp/glossary.CSV'), 'csv');
+        assert.strictEqual(formatFromPath('es.po'), 'po');
+        assert.strictEqual(formatFromPath('es.json'), undefined);
+    });
+
+    for (const format of GLOSSARY_EXTENSIONS) {
+        test(`reads back what it writes as ${format}`, () => {
+            const parsed = parseGlossary(formatGlossary(ENTRIES, format, SPANISH), format, SPANISH);
+            assert.deepStrictEqual(parsed, { entries: ENTRIES, skipped: [], conflicts: [] });
+        });
+    }
+
+    test('keeps quoted CSV cells with delimiters, quotes and line breaks', () => {
+        const csv = 'english,es\r\n"one, two","uno\r\ndos"\n"say ""hi""",saludar\n';
+        assert.deepStrictEqual(parseGlossary(csv, 'csv', SPANISH).entries, {
+            'uno\r\ndos': ['one, two'],
+            saludar: ['say "hi"'],
+        });
+    });
+
+    test('finds the columns by header in any order, or takes term then meaning without one', () => {
+        assert.deepStrictEqual(parseGlossary('Meaning\tEspañol\nuser; account\tusuario\n', 'tsv', SPANISH).entries, { usuario: ['user', 'account'] });
+        assert.deepStrictEqual(parseGlossary('usuario,user|account\n', 'csv', SPANISH).entries, { usuario: ['user', 'account'] });
+    });
+
+    test('reports rows without a term or meaning, duplicates and meanings shared by terms', () => {
+        const parsed = parseGlossary('es,en\nusuario,user\n,orphan\nvacío,\nusuario,user\ncuenta,User\n', 'csv', SPANISH);
+        assert.deepStrictEqual(parsed.entries, { usuario: ['user'], cuenta: ['User'] });
+        assert.deepStrictEqual(reasons(parsed.skipped), ['no target term', 'no English meaning', 'duplicate of line 2']);
+        assert.deepStrictEqual(parsed.conflicts.map(conflict => [conflict.line, conflict.reason]), [[6, '"User" is also the meaning of "usuario" (line 2)']]);
+    });
+
+    test('decodes TMX entities and language subtags and skips units without both languages', () => {
+        const tmx = [
+            '<tmx><body>',
+            '<tu><tuv xml:lang="en-US"><seg>Tom &amp; Jerry &#x263A;</seg></tuv><tuv lang="es_MX"><seg>Tom &lt;y&gt; Jerry</seg></tuv></tu>',
+            '<tu><tuv xml:lang="en"><seg>alone</seg></tuv></tu>',
+            '</body></tmx>',
+        ].join('\n');
+        const parsed = parseGlossary(tmx, 'tmx', SPANISH);
+        assert.deepStrictEqual(parsed.entries, { 'Tom <y> Jerry': ['Tom & Jerry ☺'] });
+        assert.deepStrictEqual(parsed.skipped.map(issue => [issue.line, issue.reason]), [[3, 'no es variant']]);
+    });
+
+    test('skips the PO header and fuzzy, plural, untranslated and obsolete entries', () => {
+        const po = [
+            'msgid ""',
+            'msgstr ""',
+            '"Language: es\\n"',
+            '',
+            'msgid "user"',
+            'msgstr ""',
+            '"usu"',
+            '"ario"',
+            '',
+            '#, fuzzy',
+            'msgid "file"',
+            'msgstr "archivo"',
+            '',
+            'msgid "item"',
+            'msgid_plural "items"',
+            'msgstr[0] "elemento"',
+            'msgstr[1] "elementos"',
+            '',
+            'msgid "folder"',
+            'msgstr ""',
+            '',
+            '#~ msgid "old"',
+            '#~ msgstr "viejo"',
+            '',
+        ].join('\n');
+        const parsed = parseGlossary(po, 'po', SPANISH);
+        assert.deepStrictEqual(parsed.entries, { usuario: ['user'] });
+        assert.deepStrictEqual(parsed.skipped.map(issue => [issue.line, issue.reason]), [
+            [10, 'marked fuzzy'],
+            [14, 'plural forms are not supported'],
+            [19, 'untranslated (empty msgstr)'],
+        ]);
+    });
+
+    test('gives PO entries of a meaning shared by several terms a context', () => {
+        const po = formatGlossary({ ejecutar: ['run'], correr: ['run'] }, 'po', SPANISH);
+        assert.ok(po.includes('msgctxt "ejecutar"\nmsgid "run"\nmsgstr "ejecutar"'), po);
+        const parsed = parseGlossary(po, 'po', SPANISH);
+        assert.deepStrictEqual(parsed.entries, { ejecutar: ['run'], correr: ['run'] });
+        assert.strictEqual(parsed.conflicts.length, 1);
+    });
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { applyConvention, identifierConventionsOf, splitIdentifier } from '../identifiers';
+import { splitTranslatable } from '../lexer';
+
+suite('identifiers', () => {
+    test('splits camelCase words, acronyms and digits', () => {
+        assert.deepStrictEqual(splitIdentifier('userName'), ['user', 'Name']);
+        assert.deepStrictEqual(splitIdentifier('HTTPServer'), ['HTTP', 'Server']);
+        assert.deepStrictEqual(splitIdentifier('getUserID2'), ['get', 'User', 'ID', '2']);
+        assert.deepStrictEqual(splitIdentifier('html5Parser'), ['html', '5', 'Parser']);
+        assert.deepStrictEqual(splitIdentifier('MAX'), ['MAX']);
+    });
+
+    test('keeps digits with a single letter', () => {
+        assert.deepStrictEqual(splitIdentifier('v2'), ['v2']);
+        assert.deepStrictEqual(splitIdentifier('i18n'), ['i18n']);
+    });
+
+    test('only splits off digits without camelCase', () => {
+        assert.deepStrictEqual(splitIdentifier('userName', ['snake_case']), ['userName']);
+        assert.deepStrictEqual(splitIdentifier('html5Parser', []), ['html', '5', 'Parser']);
+    });
+
+    test('finds the convention of the identifier each word belongs to', () => {
+        const pieces = splitTranslatable('const user_name = MAX_SIZE; // a get-item call', 'typescript');
+        const conventions = identifierConventionsOf(pieces, true);
+        const of = (word: string) => conventions[pieces.findIndex(piece => piece.text === word)];
+        assert.strictEqual(of('user'), 'snake_case');
+        assert.strictEqual(of('name'), 'snake_case');
+        assert.strictEqual(of('MAX'), 'SCREAMING_CASE');
+        assert.strictEqual(of('SIZE'), 'SCREAMING_CASE');
+        assert.strictEqual(of('get'), 'kebab-case');
+        assert.strictEqual(of('const'), undefined);
+    });
+
+    test('takes a - between identifiers in code for an operator', () => {
+        const pieces = splitTranslatable('const total = price-discount;', 'typescript');
+        assert.ok(identifierConventionsOf(pieces, true).every(convention => convention === undefined));
+    });
+
+    test('writes a translated word in its convention', () => {
+        assert.strictEqual(applyConvention('Usuario', 'snake_case'), 'usuario');
+        assert.strictEqual(applyConvention('Usuario', 'kebab-case'), 'usuario');
+        assert.strictEqual(applyConvention('Usuario', 'SCREAMING_CASE'), 'USUARIO');
+        assert.strictEqual(applyConvention('größe', 'SCREAMING_CASE', 'de'), 'GRÖẞE');
+        assert.strictEqual(applyConvention('Usuario', 'camelCase'), 'Usuario');
+    });
+});
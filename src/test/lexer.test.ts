@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { LexTokenKind, isInsideComment, lex, splitTranslatable } from '../lexer';
+
+// Words of the text with their kinds, leaving out whitespace and punctuation
+function words(text: string, languageId: string): string[] {
+    return lex(text, languageId)
+        .filter(token => token.kind !== 'whitespace' && token.kind !== 'punctuation')
+        .map(token => `${token.text}:${token.kind}`);
+}
+
+function kindsOf(text: string, languageId: string, word: string): LexTokenKind[] {
+    return lex(text, languageId).filter(token => token.text === word).map(token => token.kind);
+}
+
+suite('lexer', () => {
+    test('keeps strings, numbers and comments apart from code', () => {
+        assert.deepStrictEqual(words("const size = 3; // the size\nlog('size');", 'typescript'), [
+            'const:keyword', 'size:identifier', '3:number', '// the size:comment', 'log:identifier', "'size':string",
+        ]);
+    });
+
+    test('classifies imported names and their uses as import paths', () => {
+        const text = "import { readFile, writeFile as write } from 'fs';\nconst data = readFile(name);\nwrite(data);";
+        assert.deepStrictEqual(kindsOf(text, 'typescript', 'readFile'), ['importPath', 'importPath']);
+        assert.deepStrictEqual(kindsOf(text, 'typescript', 'write'), ['identifier', 'identifier']);
+        assert.deepStrictEqual(kindsOf(text, 'typescript', 'data'), ['identifier', 'identifier']);
+    });
+
+    test('resumes the import list after a Python alias', () => {
+        const text = 'from os import path as p, sep\nx = path.join(sep, p)\n';
+        assert.deepStrictEqual(kindsOf(text, 'python', 'sep'), ['importPath', 'importPath']);
+        assert.deepStrictEqual(kindsOf(text, 'python', 'p'), ['identifier', 'identifier']);
+    });
+
+    test('treats a member the same where it is declared and where it is read', () => {
+        const text = 'class Box {\n    size = 3;\n}\nconst size = box.size;\n';
+        assert.deepStrictEqual(kindsOf(text, 'typescript', 'size'), ['member', 'member', 'member']);
+    });
+
+    test('only offers the requested classes for translation', () => {
+        const pieces = splitTranslatable("if (ready) { print('done'); } # finished", 'python', ['comment']);
+        assert.deepStrictEqual(pieces.filter(piece => piece.translatable).map(piece => piece.text), ['finished']);
+    });
+
+    test('finds offsets inside comments, including their ends, and follows the text as it changes', () => {
+        const text = '// first\nconst a = 1; /* second */ const b = 2;';
+        const inside = (source: string, offset: number) => isInsideComment(source, 'typescript', offset);
+        assert.ok(inside(text, 0) && inside(text, 8));
+        assert.ok(!inside(text, 15));
+        assert.ok(inside(text, text.indexOf('second')) && inside(text, text.indexOf('*/') + 2));
+        assert.ok(!inside(text, text.indexOf('const b')));
+
+        const edited = text.replace('/* second */', 'second');
+        assert.ok(!inside(edited, edited.indexOf('second')));
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { readDictionary } from '../dictionary';
+import { matchCase, setCurrentDictionary, translateToOriginal, translateToTarget } from '../engine';
+import { EMPTY_MAPPING, MappingManager, MappingSnapshot, MemoryMemento, applyMappingDeltas, composeMappingDeltas, diffMappingSnapshots, findOccurrenceIdentifier } from '../mappings';
+import { setLogSink } from '../utils';
+
+const dictionaryPath = path.join(__dirname, '..', '..', 'src', 'languages', 'es.json');
+
+const SAMPLE = [
+    '// load the user list',
+    'function loadUsers(count: number) {',
+    '    const users = [];',
+    '    for (const user of list) { users.push(user); }',
+    '    return users;',
+    '}',
+].join('\n');
+
+function term(original: string, translated: string, position: number) {
+    return { original, translated, position, compoundIds: [] };
+}
+
+suite('mappings', () => {
+    suiteSetup(() => setLogSink(() => {}));
+
+    test('rebuilds a snapshot from its deltas', () => {
+        const first: MappingSnapshot = { terms: { a_1: term('a', 'x', 0), b_1: term('b', 'y', 2) }, compounds: {}, compoundCounter: 0 };
+        const second: MappingSnapshot = { terms: { a_1: term('a', 'x', 0), c_1: term('c', 'z', 4) }, compounds: {}, compoundCounter: 1 };
+        const toFirst = diffMappingSnapshots(EMPTY_MAPPING, first);
+        const toSecond = diffMappingSnapshots(first, second);
+        assert.deepStrictEqual(Object.keys(toSecond.terms).sort(), ['b_1', 'c_1']);
+        assert.deepStrictEqual(applyMappingDeltas(EMPTY_MAPPING, [toFirst, toSecond]), second);
+        assert.deepStrictEqual(applyMappingDeltas(EMPTY_MAPPING, [composeMappingDeltas(toFirst, toSecond)]), second);
+        assert.deepStrictEqual(applyMappingDeltas(first, []), first);
+    });
+
+    test('remaps only the edited lines to the same mapping as the whole text', async () => {
+        const dictionary = readDictionary([dictionaryPath], 'es', 'typescript');
+        setCurrentDictionary(dictionary);
+        const base = new MappingManager(new MemoryMemento());
+        let text = await translateToTarget(SAMPLE, dictionary, base, 'es', () => {}, 'typescript');
+        const windowed = new MappingManager(new MemoryMemento());
+        const whole = new MappingManager(new MemoryMemento());
+        windowed.importSnapshot(base.exportSnapshot());
+        whole.importSnapshot(base.exportSnapshot());
+
+        const edits: [string, string][] = [['usuarios', 'usuarios2'], ['\n    retornar', '\n    x = 1;\n    retornar'], ['[]', '[usuario]']];
+        for (const [from, to] of edits) {
+            const start = text.indexOf(from);
+            assert.notStrictEqual(start, -1, `${from} not found`);
+            const next = text.slice(0, start) + to + text.slice(start + from.length);
+            windowed.remap(text, next, null, { start, beforeEnd: start + from.length, afterEnd: start + to.length });
+            whole.remap(text, next, null);
+            assert.deepStrictEqual(windowed.exportSnapshot(), whole.exportSnapshot());
+            text = next;
+        }
+
+        const restored = await translateToOriginal(text, windowed, dictionary, () => {}, 'latin', 'typescript');
+        assert.ok(restored.startsWith('// load the user list\nfunction loadUsers(count: number) {'), restored);
+    });
+
+    test('restores an accepted completion with the meaning chosen for it', async () => {
+        const dictionary = readDictionary([dictionaryPath], 'es', 'typescript');
+        setCurrentDictionary(dictionary);
+        const mappingManager = new MappingManager(new MemoryMemento());
+        const before = await translateToTarget('// check the list\n', dictionary, mappingManager, 'es', () => {}, 'typescript');
+        // Accepting Verificar for verify maps it as the completion command does; unmapped it would read as check
+        const after = `${before}Verificar();`;
+        mappingManager.remap(before, after);
+        const offset = before.length;
+        const identifier = findOccurrenceIdentifier(mappingManager, after, offset, 'Verificar', 'latin');
+        mappingManager.addTerm(matchCase('Verificar', 'verify'), 'Verificar', offset, identifier);
+
+        const restored = await translateToOriginal(after, mappingManager, dictionary, () => {}, 'latin', 'typescript');
+        assert.strictEqual(restored, '// check the list\nVerify();');
+    });
+});
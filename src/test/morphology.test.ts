@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { englishLemmas, inflectEnglish } from '../morphology';
+
+const lemmasOf = (word: string) => englishLemmas(word).map(lemma => `${lemma.lemma}:${lemma.inflection}`);
+
+suite('morphology', () => {
+    test('finds the dictionary form of plurals', () => {
+        assert.deepStrictEqual(lemmasOf('users'), ['user:plural']);
+        assert.deepStrictEqual(lemmasOf('items')[0], 'item:plural');
+        assert.deepStrictEqual(lemmasOf('copies'), ['copy:plural']);
+        assert.ok(lemmasOf('boxes').includes('box:plural'));
+        assert.deepStrictEqual(lemmasOf('children'), ['child:plural']);
+    });
+
+    test('finds the dictionary form of past tenses and -ing forms', () => {
+        assert.ok(lemmasOf('loaded').includes('load:past'));
+        assert.ok(lemmasOf('saved').includes('save:past'));
+        assert.ok(lemmasOf('stopped').includes('stop:past'));
+        assert.ok(lemmasOf('running').includes('run:gerund'));
+        assert.ok(lemmasOf('making').includes('make:gerund'));
+        assert.deepStrictEqual(lemmasOf('wrote'), ['write:past']);
+    });
+
+    test('leaves short words, stems without vowels and object keys alone', () => {
+        assert.deepStrictEqual(lemmasOf('is'), []);
+        assert.deepStrictEqual(lemmasOf('strs'), []);
+        assert.deepStrictEqual(lemmasOf('class'), []);
+        assert.deepStrictEqual(lemmasOf('constructor'), []);
+    });
+
+    test('inflects a dictionary form back', () => {
+        assert.strictEqual(inflectEnglish('user', 'plural'), 'users');
+        assert.strictEqual(inflectEnglish('box', 'plural'), 'boxes');
+        assert.strictEqual(inflectEnglish('copy', 'plural'), 'copies');
+        assert.strictEqual(inflectEnglish('load', 'past'), 'loaded');
+        assert.strictEqual(inflectEnglish('stop', 'past'), 'stopped');
+        assert.strictEqual(inflectEnglish('run', 'gerund'), 'running');
+        assert.strictEqual(inflectEnglish('make', 'gerund'), 'making');
+        assert.strictEqual(inflectEnglish('write', 'past'), 'wrote');
+    });
+});
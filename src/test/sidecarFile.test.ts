@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { main } from '../cli';
+import { readDictionary } from '../dictionary';
+import { translateToOriginal } from '../engine';
+import { MappingManager, MemoryMemento } from '../mappings';
+import { SIDECAR_FORMAT_VERSION, SidecarFile, hashText, isSidecarStale, readSidecar, writeSidecarFile } from '../sidecarFile';
+import { setLogSink } from '../utils';
+import { SOURCE, bundledDictionaryPath, useTempFolder } from './fixtures';
+
+suite('sidecarFile', () => {
+    const tempFolder = useTempFolder('nlt-sidecar-');
+    let folder: string;
+    let sidecarPath: string;
+
+    suiteSetup(() => setLogSink(() => {}));
+
+    setup(() => {
+        folder = tempFolder();
+        sidecarPath = path.join(folder, '.nlt', 'app.ts.map.json');
+    });
+
+    // Translates the source into app.ts with `nlt translate`, which writes its sidecar map
+    async function writeTranslation(): Promise<{ translated: string; sidecar: SidecarFile }> {
+        const sourcePath = path.join(folder, 'app.en.ts');
+        const translatedPath = path.join(folder, 'app.ts');
+        fs.writeFileSync(sourcePath, SOURCE);
+        const consoleError = console.error;
+        console.error = () => {};
+        try {
+            assert.strictEqual(await main(['translate', sourcePath, '--to', 'es', '--out', translatedPath]), 0);
+        } finally {
+            console.error = consoleError;
+        }
+        return { translated: fs.readFileSync(translatedPath, 'utf8'), sidecar: readSidecar(sidecarPath)! };
+    }
+
+    test('reads back the map it wrote and restores the source from it', async () => {
+        const { translated } = await writeTranslation();
+        const read = readSidecar(sidecarPath)!;
+        assert.strictEqual(read.file, path.relative(process.cwd(), path.join(folder, 'app.ts')).split(path.sep).join('/'));
+        assert.strictEqual(read.sourceHash, hashText(SOURCE));
+        assert.strictEqual(isSidecarStale(read, translated), false);
+
+        const dictionary = readDictionary([bundledDictionaryPath('es')], 'es', 'typescript');
+        const mappingManager = new MappingManager(new MemoryMemento());
+        mappingManager.importSnapshot(read);
+        const restored = await translateToOriginal(translated, mappingManager, dictionary, () => {}, 'latin', read.tokenizerLanguage, read.classes);
+        assert.strictEqual(hashText(restored), read.sourceHash);
+    });
+
+    test('reports the map of an edited file as stale', async () => {
+        const { translated } = await writeTranslation();
+        const filePath = path.join(folder, 'app.ts');
+        fs.writeFileSync(filePath, translated);
+        fs.appendFileSync(filePath, 'retornar usuarios;\n');
+        assert.strictEqual(isSidecarStale(readSidecar(sidecarPath)!, fs.readFileSync(filePath, 'utf8')), true);
+    });
+
+    test('ignores maps of another format version and files that are no map', async () => {
+        const { sidecar } = await writeTranslation();
+        writeSidecarFile(sidecarPath, { ...sidecar, formatVersion: SIDECAR_FORMAT_VERSION + 1 });
+        assert.strictEqual(readSidecar(sidecarPath), undefined);
+
+        fs.writeFileSync(sidecarPath, JSON.stringify({ formatVersion: SIDECAR_FORMAT_VERSION, file: 'app.ts' }));
+        assert.strictEqual(readSidecar(sidecarPath), undefined);
+        fs.writeFileSync(sidecarPath, '{ not json');
+        assert.strictEqual(readSidecar(sidecarPath), undefined);
+        assert.strictEqual(readSidecar(path.join(folder, 'missing.map.json')), undefined);
+    });
+});
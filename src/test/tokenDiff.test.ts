@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { matchTokens } from '../tokenDiff';
+
+suite('tokenDiff', () => {
+    test('matches every token of an unchanged text', () => {
+        assert.deepStrictEqual(matchTokens(['a', ' ', 'b'], ['a', ' ', 'b']), [0, 1, 2]);
+    });
+
+    test('shifts the tokens after an insertion', () => {
+        assert.deepStrictEqual(matchTokens(['a', ' ', 'c'], ['a', ' ', 'b', ' ', 'c']), [0, 1, 4]);
+    });
+
+    test('leaves deleted and changed tokens unmatched', () => {
+        assert.deepStrictEqual(matchTokens(['a', 'b', 'c'], ['a', 'c']), [0, -1, 1]);
+        assert.deepStrictEqual(matchTokens(['x', '=', 'old', ';'], ['x', '=', 'new', ';']), [0, 1, -1, 3]);
+    });
+
+    test('follows a block of lines that moved', () => {
+        const before = ['first', '\n', 'second', '\n', 'third', '\n', 'fourth', '\n'];
+        const after = ['third', '\n', 'fourth', '\n', 'first', '\n', 'second', '\n'];
+        const matches = matchTokens(before, after);
+        before.forEach((token, i) => {
+            if (token !== '\n') assert.strictEqual(after[matches[i]], token, `${token} was not followed`);
+        });
+    });
+
+    test('keeps a long edited file aligned', () => {
+        const before = Array.from({ length: 5000 }, (_, i) => `w${i % 50}`);
+        const after = [...before.slice(0, 2500), 'inserted', ...before.slice(2500)];
+        const matches = matchTokens(before, after);
+        assert.strictEqual(matches[2499], 2499);
+        assert.strictEqual(matches[2500], 2501);
+        assert.strictEqual(matches[4999], 5000);
+    });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { isInRanges, mapRangesThroughTokens, occurrenceText, shiftRanges, snapRanges, tokensInRanges } from '../translatedRanges';
+
+const RANGE = [{ start: 10, end: 20 }];
+
+suite('translatedRanges', () => {
+    test('moves ranges after an edit before them and leaves ranges before an edit alone', () => {
+        assert.deepStrictEqual(shiftRanges(RANGE, 2, 0, 5), [{ start: 15, end: 25 }]);
+        assert.deepStrictEqual(shiftRanges(RANGE, 2, 4, 0), [{ start: 6, end: 16 }]);
+        assert.deepStrictEqual(shiftRanges(RANGE, 25, 3, 1), RANGE);
+    });
+
+    test('grows a range by text typed inside it or at its end, but not at its start', () => {
+        assert.deepStrictEqual(shiftRanges(RANGE, 15, 0, 3), [{ start: 10, end: 23 }]);
+        assert.deepStrictEqual(shiftRanges(RANGE, 20, 0, 3), [{ start: 10, end: 23 }]);
+        assert.deepStrictEqual(shiftRanges(RANGE, 10, 0, 3), [{ start: 13, end: 23 }]);
+    });
+
+    test('cuts a range by deletions that reach over its edges', () => {
+        // Over the start: the range starts where the deletion did
+        assert.deepStrictEqual(shiftRanges(RANGE, 5, 10, 0), [{ start: 5, end: 10 }]);
+        // Over the end: the range ends there
+        assert.deepStrictEqual(shiftRanges(RANGE, 15, 10, 0), [{ start: 10, end: 15 }]);
+        // Over the whole range: nothing is left of it
+        assert.deepStrictEqual(shiftRanges(RANGE, 5, 20, 0), [{ start: 5, end: 5 }]);
+        // Replaced over its end: the new text belongs to it
+        assert.deepStrictEqual(shiftRanges(RANGE, 18, 4, 6), [{ start: 10, end: 24 }]);
+    });
+
+    test('snaps ranges to whole tokens and merges the ones that then overlap', () => {
+        const text = 'const userName = loadUser();';
+        assert.deepStrictEqual(snapRanges(text, [{ start: 8, end: 9 }, { start: 20, end: 22 }, { start: 9, end: 12 }], 'typescript', ['identifier']), [
+            { start: 6, end: 14 },
+            { start: 17, end: 25 },
+        ]);
+    });
+
+    test('counts occurrences only in the translated ranges before an offset', () => {
+        const text = 'usuario x usuario y usuario';
+        assert.strictEqual(occurrenceText(text, null, 10), 'usuario x ');
+        assert.strictEqual(occurrenceText(text, [{ start: 0, end: 7 }, { start: 20, end: 27 }], 24), 'usuario\nusua');
+        assert.ok(isInRanges([{ start: 0, end: 7 }], 7));
+        assert.ok(!isInRanges([{ start: 0, end: 7 }], 8));
+        assert.ok(isInRanges(null, 100));
+    });
+
+    test('finds the tokens in ranges and maps ranges through translated tokens', () => {
+        const tokens = ['const', ' ', 'user', ';'];
+        assert.deepStrictEqual(tokensInRanges(tokens, [{ start: 6, end: 10 }]), [false, false, true, false]);
+        assert.deepStrictEqual(tokensInRanges(tokens, null), [true, true, true, true]);
+        assert.deepStrictEqual(mapRangesThroughTokens([{ start: 6, end: 10 }], tokens, ['const', ' ', 'usuario', ';']), [{ start: 6, end: 13 }]);
+    });
+});
@@ -0,0 +1,43 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { readDictionary } from '../dictionary';
+import { TokenClass } from '../lexer';
+import { analyzeTranslatedText, coveragePercent } from '../translationAnalysis';
+
+const dictionaryPath = path.join(__dirname, '..', '..', 'src', 'languages', 'es.json');
+const CLASSES: TokenClass[] = ['keyword', 'identifier', 'comment'];
+const TEXT = 'constante usuario = verificarFoo(x, i18n); // lista blah\nconst zz = 1;';
+
+suite('translationAnalysis', () => {
+    test('finds untranslated and ambiguous words, compound parts included', () => {
+        const dictionary = readDictionary([dictionaryPath], 'es', 'typescript');
+        const analysis = analyzeTranslatedText(TEXT, dictionary, 'latin', 'typescript', CLASSES);
+        assert.deepStrictEqual(analysis.findings.map(finding => [finding.kind, finding.word, TEXT.substr(finding.offset, finding.word.length)]), [
+            ['ambiguous', 'verificar', 'verificar'],
+            ['untranslated', 'Foo', 'Foo'],
+            ['untranslated', 'blah', 'blah'],
+            ['untranslated', 'const', 'const'],
+            ['untranslated', 'zz', 'zz'],
+        ]);
+        assert.deepStrictEqual(analysis.findings[0].meanings, ['check', 'verify']);
+    });
+
+    test('counts words for the coverage, leaving out single letters and words with digits', () => {
+        const dictionary = readDictionary([dictionaryPath], 'es', 'typescript');
+        const analysis = analyzeTranslatedText(TEXT, dictionary, 'latin', 'typescript', CLASSES);
+        assert.strictEqual(analysis.countedWords, 8);
+        assert.strictEqual(analysis.translatedWords, 4);
+        assert.strictEqual(coveragePercent(analysis), 50);
+    });
+
+    test('only checks the translated ranges of a partial translation', () => {
+        const dictionary = readDictionary([dictionaryPath], 'es', 'typescript');
+        const analysis = analyzeTranslatedText(TEXT, dictionary, 'latin', 'typescript', CLASSES, [{ start: 0, end: 20 }]);
+        assert.deepStrictEqual(analysis, { findings: [], translatedWords: 2, countedWords: 2 });
+    });
+
+    test('rounds coverage down and counts a text without words as covered', () => {
+        assert.strictEqual(coveragePercent({ findings: [], translatedWords: 2, countedWords: 3 }), 66);
+        assert.strictEqual(coveragePercent({ findings: [], translatedWords: 0, countedWords: 0 }), 100);
+    });
+});
@@ -0,0 +1,186 @@
+/**
+ * Token-level diff used to carry mappings across edits. Returns, for every token of `before`, the index of the
+ * equal token it became in `after`, or -1 when it was changed or deleted.
+ *
+ * Common prefix and suffix are matched first, the rest with Myers' O(ND) algorithm. A stretch that needs more than
+ * MAX_EDIT_DISTANCE steps is split on tokens that occur exactly once on both sides (patience diff) and the pieces in
+ * between are diffed again. Blocks that were moved rather than edited are matched afterwards.
+ */
+export function matchTokens(before: string[], after: string[]): number[] {
+    const matches = new Array<number>(before.length).fill(-1);
+    matchStretch(before, after, 0, before.length, 0, after.length, matches);
+    matchMovedBlocks(before, after, matches);
+    return matches;
+}
+
+// Keeps the Myers trace small; a large paste or rewrite falls back to patience anchors
+const MAX_EDIT_DISTANCE = 1000;
+
+function matchStretch(a: string[], b: string[], aStart: number, aEnd: number, bStart: number, bEnd: number, matches: number[]): void {
+    while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+        matches[aStart++] = bStart++;
+    }
+    while (aStart < aEnd && bStart < bEnd && a[aEnd - 1] === b[bEnd - 1]) {
+        matches[--aEnd] = --bEnd;
+    }
+    if (aStart === aEnd || bStart === bEnd || myers(a, b, aStart, aEnd, bStart, bEnd, matches)) {
+        return;
+    }
+    let aNext = aStart;
+    let bNext = bStart;
+    for (const [i, j] of uniqueAnchors(a, b, aStart, aEnd, bStart, bEnd)) {
+        matchStretch(a, b, aNext, i, bNext, j, matches);
+        matches[i] = j;
+        aNext = i + 1;
+        bNext = j + 1;
+    }
+    // Without anchors nothing here can be matched reliably, so the stretch stays unmatched
+    if (aNext > aStart) {
+        matchStretch(a, b, aNext, aEnd, bNext, bEnd, matches);
+    }
+}
+
+// Shortest edit script on a[aStart, aEnd) and b[bStart, bEnd); false when it needs more than MAX_EDIT_DISTANCE steps
+function myers(a: string[], b: string[], aStart: number, aEnd: number, bStart: number, bEnd: number, matches: number[]): boolean {
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = max + 1;
+    // v[offset + k]: furthest x reached on diagonal k; trace[d] is v as it was before step d
+    const v = new Int32Array(2 * max + 3);
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice());
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                backtrack(trace, offset, n, m, (i, j) => { matches[aStart + i] = bStart + j; });
+                return true;
+            }
+        }
+    }
+    return false;
+}
+
+function backtrack(trace: Int32Array[], offset: number, n: number, m: number, match: (i: number, j: number) => void): void {
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+        const v = trace[d];
+        const k = x - y;
+        const previousK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+        const previousX = v[offset + previousK];
+        const previousY = previousX - previousK;
+        while (x > previousX && y > previousY) {
+            match(--x, --y);
+        }
+        x = previousX;
+        y = previousY;
+    }
+    while (x > 0 && y > 0) {
+        match(--x, --y);
+    }
+}
+
+// Tokens found exactly once on each side, in the longest order-preserving sequence
+function uniqueAnchors(a: string[], b: string[], aStart: number, aEnd: number, bStart: number, bEnd: number): [number, number][] {
+    const counts = new Map<string, { a: number; b: number; i: number; j: number }>();
+    for (let i = aStart; i < aEnd; i++) {
+        const entry = counts.get(a[i]) ?? { a: 0, b: 0, i, j: -1 };
+        entry.a++;
+        counts.set(a[i], entry);
+    }
+    for (let j = bStart; j < bEnd; j++) {
+        const entry = counts.get(b[j]);
+        if (entry) {
+            entry.b++;
+            entry.j = j;
+        }
+    }
+    const pairs = [...counts.values()]
+        .filter(entry => entry.a === 1 && entry.b === 1)
+        .map(entry => [entry.i, entry.j] as [number, number])
+        .sort((p, q) => p[0] - q[0]);
+
+    // Longest increasing subsequence of the b indexes (patience sorting)
+    const pileTops: number[] = [];
+    const previous: number[] = [];
+    pairs.forEach(([, j], index) => {
+        let low = 0;
+        let high = pileTops.length;
+        while (low < high) {
+            const middle = (low + high) >> 1;
+            if (pairs[pileTops[middle]][1] < j) low = middle + 1; else high = middle;
+        }
+        previous[index] = low > 0 ? pileTops[low - 1] : -1;
+        pileTops[low] = index;
+    });
+    const anchors: [number, number][] = [];
+    for (let index = pileTops.length > 0 ? pileTops[pileTops.length - 1] : -1; index !== -1; index = previous[index]) {
+        anchors.unshift(pairs[index]);
+    }
+    return anchors;
+}
+
+const WORD = /[\p{L}\p{M}\p{N}]/u;
+
+/**
+ * A cut and pasted line shows up as a deletion plus an insertion. Each unmatched run of `before` that has a word in
+ * it is looked up among the unmatched tokens of `after`, and matched where the same tokens follow each other there.
+ */
+function matchMovedBlocks(a: string[], b: string[], matches: number[]): void {
+    const bMatched = new Array<boolean>(b.length).fill(false);
+    for (const j of matches) {
+        if (j >= 0) bMatched[j] = true;
+    }
+    // Unmatched positions of after by token, so a block is only compared where its first token is
+    const unmatchedAt = new Map<string, number[]>();
+    b.forEach((token, j) => {
+        if (bMatched[j]) return;
+        const positions = unmatchedAt.get(token);
+        if (positions) positions.push(j); else unmatchedAt.set(token, [j]);
+    });
+    const isBlank = (token: string) => !token.trim();
+
+    let i = 0;
+    while (i < a.length) {
+        if (matches[i] >= 0) {
+            i++;
+            continue;
+        }
+        let end = i;
+        while (end < a.length && matches[end] < 0) end++;
+        // Whitespace around a moved block rarely moves with it
+        let start = i;
+        let last = end;
+        while (start < last && isBlank(a[start])) start++;
+        while (last > start && isBlank(a[last - 1])) last--;
+        const block = a.slice(start, last);
+        if (block.some(token => WORD.test(token))) {
+            const at = findUnmatchedRun(b, bMatched, block, unmatchedAt.get(block[0]) ?? []);
+            if (at >= 0) {
+                block.forEach((_, offset) => {
+                    matches[start + offset] = at + offset;
+                    bMatched[at + offset] = true;
+                });
+            }
+        }
+        i = end;
+    }
+}
+
+function findUnmatchedRun(b: string[], bMatched: boolean[], block: string[], candidates: number[]): number {
+    for (const j of candidates) {
+        let k = 0;
+        while (k < block.length && !bMatched[j + k] && b[j + k] === block[k]) k++;
+        if (k === block.length) return j;
+    }
+    return -1;
+}
@@ -0,0 +1,97 @@
+import { TokenClass, splitTranslatable } from './lexer';
+
+/**
+ * Document offsets of a partial translation, e.g. one translated function in an English file.
+ * Documents translated as a whole have no ranges (null).
+ */
+export interface TranslatedRange {
+    start: number;
+    end: number;
+}
+
+// Widens each range to whole tokens so a word is never half translated, and merges ranges that then overlap
+export function snapRanges(text: string, ranges: TranslatedRange[], languageId: string, classes: TokenClass[]): TranslatedRange[] {
+    const boundaries: number[] = [0];
+    for (const piece of splitTranslatable(text, languageId, classes)) {
+        boundaries.push(boundaries[boundaries.length - 1] + piece.text.length);
+    }
+    const snapped = ranges
+        .map(range => ({
+            start: [...boundaries].reverse().find(boundary => boundary <= range.start) ?? 0,
+            end: boundaries.find(boundary => boundary >= range.end) ?? text.length,
+        }))
+        .filter(range => range.end > range.start)
+        .sort((a, b) => a.start - b.start);
+
+    const merged: TranslatedRange[] = [];
+    for (const range of snapped) {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push(range);
+        }
+    }
+    return merged;
+}
+
+export function isInRanges(ranges: TranslatedRange[] | null, offset: number): boolean {
+    return ranges === null || ranges.some(range => offset >= range.start && offset <= range.end);
+}
+
+/**
+ * The text mapping identifiers are numbered against for a word at the offset: everything before it for a
+ * whole-document translation, only the translated ranges before it for a partial one. Ranges are joined by a
+ * line break so a word can't be counted across two of them.
+ */
+export function occurrenceText(text: string, ranges: TranslatedRange[] | null, offset: number): string {
+    if (ranges === null) {
+        return text.substring(0, offset);
+    }
+    return ranges
+        .filter(range => range.start < offset)
+        .map(range => text.substring(range.start, Math.min(range.end, offset)))
+        .join('\n');
+}
+
+/**
+ * Moves the ranges over an edit that replaced `removedLength` characters at `offset` with `insertedLength` new ones.
+ * Typing inside a range or right at its end grows it; text inserted at its start stays outside.
+ */
+export function shiftRanges(ranges: TranslatedRange[], offset: number, removedLength: number, insertedLength: number): TranslatedRange[] {
+    const removedEnd = offset + removedLength;
+    const delta = insertedLength - removedLength;
+    const move = (position: number, keepsInserted: boolean) => {
+        if (position < offset) return position;
+        if (position >= removedEnd) return position + delta;
+        // Inside the removed text: after the inserted text for an end, before it for a start
+        return keepsInserted ? offset + insertedLength : offset;
+    };
+    return ranges.map(range => {
+        const start = move(range.start, false);
+        return { start, end: Math.max(start, move(range.end, true)) };
+    });
+}
+
+// Which tokens start inside the ranges; every token when there are none
+export function tokensInRanges(tokens: string[], ranges?: TranslatedRange[] | null): boolean[] {
+    let offset = 0;
+    return tokens.map(token => {
+        const start = offset;
+        offset += token.length;
+        return !ranges || ranges.some(range => start >= range.start && start < range.end);
+    });
+}
+
+// Ranges over text whose tokens were replaced one for one: each boundary stays between the same two tokens
+export function mapRangesThroughTokens(ranges: TranslatedRange[], tokens: string[], outputTokens: string[]): TranslatedRange[] {
+    const outputAt = new Map<number, number>([[0, 0]]);
+    let input = 0;
+    let output = 0;
+    tokens.forEach((token, i) => {
+        input += token.length;
+        output += outputTokens[i].length;
+        outputAt.set(input, output);
+    });
+    return ranges.map(range => ({ start: outputAt.get(range.start) ?? range.start, end: outputAt.get(range.end) ?? range.end }));
+}
@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { log } from './utils';
+import { TranslatorState } from './extension';
+import { MappingManager, MemoryMemento } from './mappings';
+import { translateToTarget, loadDictionary, getTokenizerLanguage, getTranslatedClasses, currentDictionary, setCurrentDictionary } from './translation';
+
+export const TRANSLATED_SCHEME = 'nlt-translated';
+
+interface ViewQuery {
+    source: string;
+    language: string;
+}
+
+export class TranslatedViewProvider implements vscode.TextDocumentContentProvider {
+    private changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private refreshTimers = new Map<string, NodeJS.Timeout>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private context: vscode.ExtensionContext) {}
+
+    static toViewUri(source: vscode.Uri, language: string): vscode.Uri {
+        const query: ViewQuery = { source: source.toString(), language };
+        // Keep the file name so the view gets the same language mode and a readable tab title
+        const extension = path.posix.extname(source.path);
+        const name = `${path.posix.basename(source.path, extension)} (${language})${extension}`;
+        return vscode.Uri.from({
+            scheme: TRANSLATED_SCHEME,
+            path: path.posix.join(path.posix.dirname(source.path), name),
+            query: JSON.stringify(query),
+        });
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const { source, language } = JSON.parse(uri.query) as ViewQuery;
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === source)
+            ?? await vscode.workspace.openTextDocument(vscode.Uri.parse(source));
+
+        // Translate against a scratch map so the editor's own mapping state is never touched; a read-only view
+        // doesn't write the variants it meets to the user dictionary either
+        const scratchMap = new MappingManager(new MemoryMemento());
+        const dictionary = loadDictionary(this.context, language, document.languageId, document.uri);
+        // The segmenters read the active dictionary, which belongs to whatever was toggled last
+        const previousDictionary = currentDictionary;
+        setCurrentDictionary(dictionary);
+        try {
+            const translated = await translateToTarget(
+                document.getText(), dictionary, scratchMap, language, () => {},
+                getTokenizerLanguage(document), getTranslatedClasses()
+            );
+            log(`Rendered translated view of ${source} in ${language}`);
+            return translated;
+        } finally {
+            setCurrentDictionary(previousDictionary);
+        }
+    }
+
+    refreshSource(source: vscode.Uri): void {
+        const key = source.toString();
+        clearTimeout(this.refreshTimers.get(key));
+        this.refreshTimers.set(key, setTimeout(() => {
+            this.refreshTimers.delete(key);
+            for (const doc of vscode.workspace.textDocuments) {
+                if (doc.uri.scheme === TRANSLATED_SCHEME && (JSON.parse(doc.uri.query) as ViewQuery).source === key) {
+                    this.changeEmitter.fire(doc.uri);
+                }
+            }
+        }, 300));
+    }
+
+    dispose(): void {
+        this.refreshTimers.forEach(timer => clearTimeout(timer));
+        this.changeEmitter.dispose();
+    }
+}
+
+export function registerTranslatedView(context: vscode.ExtensionContext, state: TranslatorState) {
+    const provider = new TranslatedViewProvider(context);
+
+    const openDisposable = vscode.commands.registerCommand('vscode-translator.openTranslatedView', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            vscode.window.showErrorMessage('No active editor found!');
+            return;
+        }
+        if (editor.document.uri.scheme === TRANSLATED_SCHEME) {
+            vscode.window.showErrorMessage('This is already a translated view.');
+            return;
+        }
+        if (state.documentState(editor.document).isTargetLanguage) {
+            vscode.window.showErrorMessage('Toggle the document back to English before opening a translated view.');
+            return;
+        }
+        const language = state.selectedLanguage();
+        if (!language || language === 'en') {
+            vscode.window.showErrorMessage('Please select a target language first.');
+            return;
+        }
+
+        const viewUri = TranslatedViewProvider.toViewUri(editor.document.uri, language);
+        const viewDocument = await vscode.workspace.openTextDocument(viewUri);
+        await vscode.window.showTextDocument(viewDocument, { viewColumn: vscode.ViewColumn.Beside, preview: false, preserveFocus: true });
+        log(`Opened translated view ${viewUri.toString()}`);
+    });
+
+    const changeDisposable = vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document.uri.scheme !== TRANSLATED_SCHEME) {
+            provider.refreshSource(event.document.uri);
+        }
+    });
+
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(TRANSLATED_SCHEME, provider),
+        openDisposable,
+        changeDisposable,
+        provider
+    );
+    log('Translated view provider registered successfully');
+}
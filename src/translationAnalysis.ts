@@ -0,0 +1,89 @@
+import { TokenClass, splitTranslatable } from './lexer';
+import { getDictionaryIndex } from './indexes';
+import { TranslatedRange, tokensInRanges } from './translatedRanges';
+import { splitIdentifier } from './identifiers';
+import { Dictionary, Script, isCasedScript, splitNonLatinCompound, currentDictionary, setCurrentDictionary } from './engine';
+
+// Untranslated and ambiguous words of a translated text and its coverage, for the diagnostics and batch reports
+
+// Diagnostic codes, also used by code actions to recognise the extension's own diagnostics
+export type FindingKind = 'untranslated' | 'ambiguous';
+
+export interface TranslationFinding {
+    kind: FindingKind;
+    offset: number;
+    word: string;
+    // English meanings of an ambiguous dictionary term
+    meanings: string[];
+}
+
+export interface TranslationAnalysis {
+    findings: TranslationFinding[];
+    translatedWords: number;
+    countedWords: number;
+}
+
+// Parts of a translated compound: identifier parts in scripts with capitals (keeping accents and other marks
+// inside the part), dictionary segments otherwise. The segmenters read the active dictionary.
+export function splitWordParts(word: string, isCased: boolean): string[] {
+    return isCased ? splitIdentifier(word) : splitNonLatinCompound(word);
+}
+
+/**
+ * Finds the translatable words of a translated document that are not dictionary terms (untranslated)
+ * or whose term has several English meanings (ambiguous). Words that aren't terms are checked part by part,
+ * since compounds are translated one part at a time.
+ */
+export function analyzeTranslatedText(text: string, dictionary: Dictionary, script: Script, languageId: string, classes: TokenClass[], ranges: TranslatedRange[] | null = null): TranslationAnalysis {
+    const index = getDictionaryIndex(dictionary);
+    const isCased = isCasedScript(script);
+    const analysis: TranslationAnalysis = { findings: [], translatedWords: 0, countedWords: 0 };
+
+    const check = (word: string, offset: number) => {
+        const meanings = index.meaningsOf(word, isCased);
+        analysis.countedWords++;
+        if (meanings.length > 0) {
+            analysis.translatedWords++;
+            if (meanings.length > 1) {
+                analysis.findings.push({ kind: 'ambiguous', offset, word, meanings });
+            }
+        } else {
+            analysis.findings.push({ kind: 'untranslated', offset, word, meanings });
+        }
+    };
+
+    const previousDictionary = currentDictionary;
+    setCurrentDictionary(dictionary);
+    try {
+        let offset = 0;
+        const pieces = splitTranslatable(text, languageId, classes);
+        // The English rest of a partially translated document is not checked
+        const inRange = tokensInRanges(pieces.map(piece => piece.text), ranges);
+        for (const [i, piece] of pieces.entries()) {
+            const pieceOffset = offset;
+            offset += piece.text.length;
+            if (!inRange[i] || !piece.translatable || !/\p{L}/u.test(piece.text)) continue;
+
+            if (index.termsMatching(piece.text, isCased).length > 0) {
+                check(piece.text, pieceOffset);
+                continue;
+            }
+            let partOffset = pieceOffset;
+            for (const part of splitWordParts(piece.text, isCased)) {
+                partOffset = text.indexOf(part, partOffset);
+                // Single letters are usually loop variables or type parameters, and v2 or i18n are not words either
+                if ([...part].length > 1 && /\p{L}/u.test(part) && !/\p{N}/u.test(part)) {
+                    check(part, partOffset);
+                }
+                partOffset += part.length;
+            }
+        }
+    } finally {
+        setCurrentDictionary(previousDictionary);
+    }
+    return analysis;
+}
+
+export function coveragePercent(analysis: TranslationAnalysis): number {
+    return analysis.countedWords === 0 ? 100 : Math.floor(analysis.translatedWords * 100 / analysis.countedWords);
+}
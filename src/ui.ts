@@ -1,20 +1,22 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
-import * as path from 'path';
 import { log } from './utils';
+import { readDictionaryLayers } from './dictionary';
+import { DictionaryLayer, getBundledFolder, getLayerPaths, listDictionaryLayers } from './dictionaryLayers';
+
+interface DictionaryPickItem extends vscode.QuickPickItem {
+    code: string;
+}
 
 export class LanguageSelector 
 {
     private statusBarItem: vscode.StatusBarItem;
     private extensionContext: vscode.ExtensionContext;
     private currentLanguage: string = 'en'; // Default to English
-    private languageFolder: string;
 
     constructor(context: vscode.ExtensionContext) 
     {
         this.extensionContext = context;
-        this.languageFolder = path.join(context.extensionPath, 'out', 'languages', 'languages');
-        log(`Language folder path: ${this.languageFolder}`);
+        log(`Language folder path: ${getBundledFolder(context)}`);
         this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
         this.statusBarItem.text = `Language: ${this.currentLanguage}`;
         this.statusBarItem.command = 'vscode-translator.selectDictionary';
@@ -29,18 +31,20 @@ export class LanguageSelector
             const dictionaries = this.getAvailableDictionaries();
             log(`Dropdown dictionaries: ${dictionaries}`);
             if (dictionaries.length === 1) {
-                vscode.window.showWarningMessage('No dictionaries found in out/languages/languages/. Check build output.');
+                vscode.window.showWarningMessage('No dictionaries found in out/languages/languages/, the user dictionaries or .vscode/nlt/. Check build output.');
 
             }
             const selected = await vscode.window.showQuickPick(dictionaries, {
                 placeHolder: 'Select a dictionary to load (en for default English)',
+                matchOnDescription: true,
                 ignoreFocusOut: true
 
             });
 
             if (selected) {
-                this.currentLanguage = selected === 'en' ? 'en' : selected.split('.')[0];
+                this.currentLanguage = selected.code;
                 this.statusBarItem.text = `Language: ${this.currentLanguage}`;
+                this.statusBarItem.tooltip = selected.description ? `${selected.description} - Select Dictionary` : 'Select Dictionary';
                 log(`Selected language: ${this.currentLanguage}`);
                 vscode.window.showInformationMessage(`Language set to ${this.currentLanguage}`);
 
@@ -50,19 +54,37 @@ export class LanguageSelector
         this.extensionContext.subscriptions.push(disposable);
     }
 
-    private getAvailableDictionaries(): string[] 
+    private getAvailableDictionaries(): DictionaryPickItem[] 
+    {
+        const english: DictionaryPickItem = { label: 'en', description: 'English', code: 'en' };
+        const resource = vscode.window.activeTextEditor?.document.uri;
+        const languages = listDictionaryLayers(this.extensionContext, resource);
+        log(`Dictionaries by layer: ${JSON.stringify([...languages])}`);
+        return [english, ...[...languages.keys()].sort().map(code => this.describeDictionary(code, languages.get(code)!, resource))];
+    }
+
+    // Name, script and version from v2 metadata, plus the layers the dictionary is merged from
+    private describeDictionary(code: string, layers: DictionaryLayer[], resource?: vscode.Uri): DictionaryPickItem 
     {
         try 
         {
-            const files = fs.readdirSync(this.languageFolder);
-            const jsonFiles = files.filter(file => file.endsWith('.json'));
-            log(`Files in ${this.languageFolder}: ${files}`);
-            return ['en', ...jsonFiles];
+            const dictionary = readDictionaryLayers(getLayerPaths(this.extensionContext, code, resource), code);
+            const { name, nativeName, script, direction, version } = dictionary.metadata;
+            const entryCount = Object.keys(dictionary.entries).length;
+            if (dictionary.schemaVersion === 1) {
+                return { label: code, description: `${code}.json`, detail: `${entryCount} entries · ${layers.join(' + ')} (v1 dictionary, run Migrate Dictionary to add metadata)`, code };
+            }
+            const details = [script, direction === 'rtl' ? 'right-to-left' : undefined, version ? `v${version}` : undefined, `${entryCount} entries`, layers.join(' + ')];
+            return {
+                label: code,
+                description: [name, nativeName && nativeName !== name ? `(${nativeName})` : undefined].filter(Boolean).join(' '),
+                detail: details.filter(Boolean).join(' · '),
+                code,
+            };
         } catch (error) {
-            log(`Error reading ${this.languageFolder}: ${error}`);
-            return ['en'];
+            log(`Error reading dictionary ${code}: ${error}`);
+            return { label: code, description: `${code}.json`, detail: 'Could not be read', code };
         }
-
     }
 
     getCurrentLanguage(): string 
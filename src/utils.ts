@@ -1,6 +1,11 @@
-import * as vscode from 'vscode';
+let logSink: (message: string) => void = message => console.log(`[VSCode Translator] ${message}`);
 
 export function log(message: string) 
 {
-    console.log(`[VSCode Translator] ${message}`);
+    logSink(message);
+}
+
+// The CLI writes translations to stdout, so it sends the trace to stderr or drops it
+export function setLogSink(sink: (message: string) => void): void {
+    logSink = sink;
 }